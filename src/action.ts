@@ -0,0 +1,693 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import "./styles.css";
+import { addImageOptionsToItems, isPlayerGM } from "./helpers";
+import { getAuditLog, onAuditLogChange, restoreAuditEntry, type AuditEntry } from "./audit";
+import { scanSceneForBrokenVariants, type BrokenVariantItem } from "./assets";
+import {
+    approveProposal,
+    getPendingProposals,
+    onPendingProposalsChange,
+    rejectProposal,
+    type VariantProposal,
+} from "./proposals";
+import { applySceneState, getSceneStateNames, type SceneStateResult } from "./sceneStates";
+import {
+    clearOrphanedMetadata,
+    focusItem,
+    getManagedItems,
+    getOrphanedItemIds,
+    switchItemsToVariantName,
+    type ManagedItem,
+} from "./manager";
+import { METADATA_KEY } from "./metadata";
+
+/**
+ * This file represents the HTML of the action popover, used by the GM
+ * to manage variants across the whole scene.
+ * Everything is built with DOM nodes and textContent, since item, variant
+ * and player names come straight from the scene and other players.
+ */
+
+/**
+ * How long item changes are gathered before the data is redrawn
+ * Animations write frames many times a second, so a redraw waits out the burst
+ * instead of running once per change
+ */
+const REFRESH_DELAY = 500;
+
+/** Summary of the last scene state or bulk operation, kept across rebuilds */
+let lastSummary: string | undefined;
+
+/** Manager filters and checked rows, kept across rebuilds */
+let nameFilter = "";
+let layerFilter = "";
+const checkedIds = new Set<string>();
+
+/** Items listed in the manager, refreshed whenever the scene changes */
+let managedItems: ManagedItem[] = [];
+
+/** Change log filters, kept across rebuilds */
+let auditItemFilter = "";
+let auditPlayerFilter = "";
+
+/** Result of the last broken image scan, undefined until one has run */
+let brokenItems: BrokenVariantItem[] | undefined;
+
+function describeResult(name: string, result: SceneStateResult): string {
+    let summary = `${name}: switched ${result.changed} item${result.changed === 1 ? "" : "s"}`;
+    if (result.unchanged > 0) {
+        summary += `, ${result.unchanged} already matched`;
+    }
+    if (result.unmatched.length > 0) {
+        summary += `. No "${name}" variant on: ${result.unmatched.join(", ")}`;
+    }
+    return summary;
+}
+
+function getFilteredItems(): ManagedItem[] {
+    const filter = nameFilter.trim().toLowerCase();
+    return managedItems.filter(item =>
+        (!layerFilter || item.layer === layerFilter) &&
+        (!filter || item.name.toLowerCase().includes(filter))
+    );
+}
+
+function getCheckedItems(): ManagedItem[] {
+    return managedItems.filter(item => checkedIds.has(item.id));
+}
+
+function createMessage(text: string): HTMLParagraphElement {
+    const message = document.createElement("p");
+    message.className = "action-message";
+    message.textContent = text;
+    return message;
+}
+
+function createHeading(text: string): HTMLHeadingElement {
+    const heading = document.createElement("h2");
+    heading.className = "action-heading";
+    heading.textContent = text;
+    return heading;
+}
+
+function createContainer(id: string, className?: string): HTMLDivElement {
+    const container = document.createElement("div");
+    container.id = id;
+    if (className) {
+        container.className = className;
+    }
+    return container;
+}
+
+/**
+ * Render the whole panel, or a message when it can't be used
+ */
+async function renderPanel(): Promise<void> {
+    const app = document.querySelector<HTMLDivElement>("#app")!;
+
+    if (!await OBR.scene.isReady()) {
+        app.replaceChildren(createMessage("Open a scene to manage its variants."));
+        return;
+    }
+    if (!await isPlayerGM()) {
+        app.replaceChildren(createMessage("Only the GM can manage scene variants."));
+        return;
+    }
+
+    const filterRow = document.createElement("div");
+    filterRow.className = "library-row";
+    const nameInput = document.createElement("input");
+    nameInput.className = "library-name";
+    nameInput.type = "text";
+    nameInput.placeholder = "Filter by name";
+    nameInput.value = nameFilter;
+    nameInput.addEventListener("input", () => {
+        nameFilter = nameInput.value;
+        renderItems();
+    });
+    const layerSelect = document.createElement("select");
+    layerSelect.className = "library-select";
+    layerSelect.title = "Filter by layer";
+    layerSelect.append(new Option("All layers", ""));
+    for (const layer of ["CHARACTER", "MOUNT", "PROP", "ATTACHMENT", "NOTE", "MAP"]) {
+        layerSelect.append(new Option(layer.toLowerCase(), layer, false, layer === layerFilter));
+    }
+    layerSelect.addEventListener("change", () => {
+        layerFilter = layerSelect.value;
+        renderItems();
+    });
+    filterRow.append(nameInput, layerSelect);
+
+    const scanRow = document.createElement("div");
+    scanRow.className = "library-row";
+    const scanButton = document.createElement("button");
+    scanButton.className = "library-button";
+    scanButton.id = "scan-broken";
+    scanButton.textContent = "Scan scene";
+    scanButton.title = "Check every variant in the scene for images that can't be loaded";
+    scanButton.addEventListener("click", () => {
+        handleScanClick();
+    });
+    scanRow.append(scanButton);
+
+    const summary = document.createElement("p");
+    summary.className = "action-summary";
+    summary.id = "action-summary";
+    summary.textContent = lastSummary ?? "";
+
+    const panel = document.createElement("div");
+    panel.className = "action-panel";
+    panel.append(
+        createHeading("Scene states"),
+        createContainer("scene-states"),
+        createHeading("Items with variants"),
+        filterRow,
+        createContainer("manager-bulk"),
+        createContainer("manager-list", "manager-list"),
+        createHeading("Image requests"),
+        createContainer("proposal-list", "manager-list"),
+        createHeading("Change log"),
+        createContainer("audit-filters", "library-row"),
+        createContainer("audit-list", "manager-list"),
+        createHeading("Broken images"),
+        scanRow,
+        createContainer("broken-list", "manager-list"),
+        summary,
+    );
+    app.replaceChildren(panel);
+
+    renderBrokenItems();
+    await renderProposals();
+    await renderAuditLog();
+    await refreshData();
+}
+
+/**
+ * Reload the scene data and redraw the parts of the panel that show it
+ */
+async function refreshData(): Promise<void> {
+    if (!document.querySelector("#manager-list")) {
+        return;
+    }
+
+    const names = await getSceneStateNames();
+    managedItems = await getManagedItems();
+    for (const id of checkedIds) {
+        if (!managedItems.some(item => item.id === id)) {
+            checkedIds.delete(id);
+        }
+    }
+
+    const states = document.querySelector<HTMLDivElement>("#scene-states")!;
+    if (names.length === 0) {
+        states.replaceChildren(createMessage('Tag variants with a scene state, e.g. "Night", from the variant menu to switch them all at once.'));
+    } else {
+        const list = document.createElement("div");
+        list.className = "scene-state-list";
+        for (const name of names) {
+            const button = document.createElement("button");
+            button.className = "library-button scene-state-button";
+            button.textContent = name;
+            button.title = `Switch every item with a "${name}" variant`;
+            button.addEventListener("click", () => {
+                handleSceneStateClick(name);
+            });
+            list.append(button);
+        }
+        states.replaceChildren(list);
+    }
+
+    await renderBulkBar();
+    renderItems();
+}
+
+/**
+ * Draw the bulk operations for the checked items
+ */
+async function renderBulkBar(): Promise<void> {
+    const bulk = document.querySelector<HTMLDivElement>("#manager-bulk")!;
+    const checkedItems = getCheckedItems();
+    const variantNames = [...new Set(checkedItems.flatMap(item => item.imageOptions.map(option => option.name)))];
+    const orphanedCount = (await getOrphanedItemIds()).length;
+
+    const row = document.createElement("div");
+    row.className = "library-row";
+    const select = document.createElement("select");
+    select.className = "library-select";
+    select.title = "Switch the checked items to the variant with this name";
+    select.disabled = checkedItems.length === 0;
+    select.append(new Option(`Switch ${checkedItems.length} checked to...`, ""));
+    variantNames.forEach((name, index) => {
+        select.append(new Option(name, String(index)));
+    });
+    select.addEventListener("change", () => {
+        if (select.value) {
+            handleBulkSwitch(variantNames[Number(select.value)]);
+        }
+    });
+    const add = document.createElement("button");
+    add.className = "library-button";
+    add.textContent = "Add";
+    add.title = "Add one or more images as variants to the checked items";
+    add.disabled = checkedItems.length === 0;
+    add.addEventListener("click", () => {
+        handleBulkAdd();
+    });
+    row.append(select, add);
+    bulk.replaceChildren(row);
+
+    if (orphanedCount > 0) {
+        const orphanedRow = document.createElement("div");
+        orphanedRow.className = "library-row";
+        const clear = document.createElement("button");
+        clear.className = "library-button";
+        clear.textContent = `Clear ${orphanedCount} orphaned`;
+        clear.title = "Remove Changr data from items that have no variants left";
+        clear.addEventListener("click", () => {
+            handleClearOrphaned();
+        });
+        orphanedRow.append(clear);
+        bulk.append(orphanedRow);
+    }
+}
+
+function setItemChecked(itemId: string, checked: boolean): void {
+    if (checked) {
+        checkedIds.add(itemId);
+    } else {
+        checkedIds.delete(itemId);
+    }
+}
+
+/**
+ * Draw the filtered item rows
+ */
+function renderItems(): void {
+    const list = document.querySelector<HTMLDivElement>("#manager-list");
+    if (!list) {
+        return;
+    }
+
+    const items = getFilteredItems();
+    list.replaceChildren();
+    if (items.length === 0) {
+        list.append(createMessage("No items match."));
+        return;
+    }
+
+    const header = document.createElement("label");
+    header.className = "manager-row manager-header";
+    const checkAll = document.createElement("input");
+    checkAll.type = "checkbox";
+    checkAll.checked = items.every(item => checkedIds.has(item.id));
+    checkAll.addEventListener("change", () => {
+        for (const item of items) {
+            setItemChecked(item.id, checkAll.checked);
+        }
+        renderItems();
+        renderBulkBar();
+    });
+    const count = document.createElement("span");
+    count.textContent = `${items.length} item${items.length === 1 ? "" : "s"}`;
+    header.append(checkAll, count);
+    list.append(header);
+
+    for (const item of items) {
+        const row = document.createElement("div");
+        row.className = "manager-row";
+        row.title = "Select and show on the map";
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.className = "manager-check";
+        checkbox.checked = checkedIds.has(item.id);
+        checkbox.addEventListener("click", (event) => {
+            event.stopPropagation();
+        });
+        checkbox.addEventListener("change", () => {
+            setItemChecked(item.id, checkbox.checked);
+            renderItems();
+            renderBulkBar();
+        });
+        const thumbnail = document.createElement("img");
+        thumbnail.className = "manager-thumbnail";
+        thumbnail.src = item.url;
+        thumbnail.alt = "";
+        const name = document.createElement("span");
+        name.className = "manager-name";
+        name.textContent = item.name;
+        const variant = document.createElement("span");
+        variant.className = "manager-variant";
+        variant.textContent = item.activeOption?.name ?? "custom image";
+        row.append(checkbox, thumbnail, name, variant);
+        row.addEventListener("click", () => {
+            handleRowClick(item.id);
+        });
+        list.append(row);
+    }
+}
+
+/**
+ * Draw the result of the last broken image scan
+ */
+function renderBrokenItems(): void {
+    const list = document.querySelector<HTMLDivElement>("#broken-list");
+    if (!list || !brokenItems) {
+        return;
+    }
+
+    list.replaceChildren();
+    if (brokenItems.length === 0) {
+        list.append(createMessage("Every variant image loads."));
+        return;
+    }
+
+    for (const item of brokenItems) {
+        const row = document.createElement("div");
+        row.className = "manager-row broken-row";
+        row.title = "Select and show on the map, then replace the image from the variant menu";
+        const name = document.createElement("span");
+        name.className = "manager-name";
+        name.textContent = item.name;
+        const variants = document.createElement("span");
+        variants.className = "manager-variant";
+        variants.textContent = item.brokenOptions.map(option => option.name).join(", ");
+        row.append(name, variants);
+        row.addEventListener("click", () => {
+            handleRowClick(item.id);
+        });
+        list.append(row);
+    }
+}
+
+/**
+ * Draw the images players have asked to add, with buttons to approve or reject each
+ */
+async function renderProposals(): Promise<void> {
+    const list = document.querySelector<HTMLDivElement>("#proposal-list");
+    if (!list) {
+        return;
+    }
+
+    const proposals = await getPendingProposals();
+    list.replaceChildren();
+    if (proposals.length === 0) {
+        list.append(createMessage("Players without permission to add images can suggest them from the popover."));
+        return;
+    }
+
+    for (const proposal of proposals) {
+        const row = document.createElement("div");
+        row.className = "manager-row proposal-row";
+        row.title = "Select and show the token on the map";
+        const thumbnail = document.createElement("img");
+        thumbnail.className = "manager-thumbnail";
+        thumbnail.src = proposal.imageOption.url;
+        thumbnail.alt = "";
+        const name = document.createElement("span");
+        name.className = "manager-name";
+        name.textContent = `${proposal.imageOption.name} for ${proposal.itemName}`;
+        const player = document.createElement("span");
+        player.className = "manager-variant";
+        player.textContent = proposal.playerName;
+        const approve = document.createElement("button");
+        approve.className = "library-button";
+        approve.textContent = "Approve";
+        approve.title = "Add the image to the token as a new variant";
+        approve.addEventListener("click", (event) => {
+            event.stopPropagation();
+            handleApproveClick(proposal);
+        });
+        const reject = document.createElement("button");
+        reject.className = "library-button";
+        reject.textContent = "Reject";
+        reject.addEventListener("click", (event) => {
+            event.stopPropagation();
+            handleRejectClick(proposal);
+        });
+        row.append(thumbnail, name, player, approve, reject);
+        row.addEventListener("click", () => {
+            handleRowClick(proposal.itemId);
+        });
+        list.append(row);
+    }
+}
+
+function describeAuditEntry(entry: AuditEntry): string {
+    switch (entry.action) {
+        case "SWITCH":
+            return `${entry.fromName ?? "custom image"} \u2192 ${entry.toName}`;
+        case "ADD":
+            return `added ${entry.toName}`;
+        case "REMOVE":
+            return `removed ${entry.fromName}`;
+    }
+}
+
+function createFilterSelect(title: string, allLabel: string, choices: Map<string, string>, value: string, onChange: (value: string) => void): HTMLSelectElement {
+    const select = document.createElement("select");
+    select.className = "library-select";
+    select.title = title;
+    select.append(new Option(allLabel, ""));
+    for (const [id, label] of choices) {
+        select.append(new Option(label, id, false, id === value));
+    }
+    select.addEventListener("change", () => onChange(select.value));
+    return select;
+}
+
+/**
+ * Draw the change log with its item and player filters
+ */
+async function renderAuditLog(): Promise<void> {
+    const filters = document.querySelector<HTMLDivElement>("#audit-filters");
+    const list = document.querySelector<HTMLDivElement>("#audit-list");
+    if (!filters || !list) {
+        return;
+    }
+
+    const entries = await getAuditLog();
+    const itemNames = new Map(entries.map(entry => [entry.itemId, entry.itemName]));
+    const playerNames = new Map(entries.map(entry => [entry.playerId, entry.playerName]));
+    filters.replaceChildren(
+        createFilterSelect("Only show changes to this item", "All items", itemNames, auditItemFilter, (value) => {
+            auditItemFilter = value;
+            renderAuditLog();
+        }),
+        createFilterSelect("Only show changes by this player", "All players", playerNames, auditPlayerFilter, (value) => {
+            auditPlayerFilter = value;
+            renderAuditLog();
+        }),
+    );
+
+    const filtered = entries.filter(entry =>
+        (!auditItemFilter || entry.itemId === auditItemFilter) &&
+        (!auditPlayerFilter || entry.playerId === auditPlayerFilter)
+    );
+    list.replaceChildren();
+    if (filtered.length === 0) {
+        list.append(createMessage(entries.length === 0 ? "Variant switches, additions and removals show up here." : "No changes match."));
+        return;
+    }
+
+    for (const entry of filtered) {
+        const row = document.createElement("div");
+        row.className = "manager-row audit-row";
+        row.title = `${new Date(entry.time).toLocaleString()} by ${entry.playerName}`;
+        const time = document.createElement("span");
+        time.className = "audit-time";
+        time.textContent = new Date(entry.time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+        const name = document.createElement("span");
+        name.className = "manager-name";
+        name.textContent = `${entry.playerName}: ${entry.itemName}`;
+        const change = document.createElement("span");
+        change.className = "manager-variant";
+        change.textContent = describeAuditEntry(entry);
+        const restore = document.createElement("button");
+        restore.className = "library-button";
+        restore.textContent = "Restore";
+        restore.title = "Put the item back the way it was before this change";
+        restore.addEventListener("click", () => {
+            handleRestoreClick(entry);
+        });
+        row.append(time, name, change, restore);
+        list.append(row);
+    }
+}
+
+function showSummary(summary: string): void {
+    lastSummary = summary;
+    const element = document.querySelector<HTMLParagraphElement>("#action-summary");
+    if (element) {
+        element.textContent = summary;
+    }
+}
+
+async function handleSceneStateClick(name: string) {
+    try {
+        const result = await applySceneState(name);
+        showSummary(describeResult(name, result));
+    } catch (error) {
+        console.error("Error applying scene state:", error);
+        await OBR.notification.show(`Could not switch to "${name}"`, "ERROR");
+    }
+}
+
+async function handleBulkSwitch(name: string) {
+    try {
+        const checkedItems = getCheckedItems();
+        const missing = await switchItemsToVariantName(checkedItems, name);
+        showSummary(missing > 0
+            ? `Switched to "${name}", ${missing} of ${checkedItems.length} items have no such variant`
+            : `Switched ${checkedItems.length} items to "${name}"`);
+    } catch (error) {
+        console.error("Error switching items:", error);
+    }
+}
+
+async function handleBulkAdd() {
+    try {
+        // Several images can be picked at once, they are added in name order
+        const downloadResult = await OBR.assets.downloadImages(true);
+        if (downloadResult && downloadResult.length > 0) {
+            const checkedItems = getCheckedItems();
+            const { added, skippedNames } = await addImageOptionsToItems(checkedItems.map(item => item.id), downloadResult);
+            showSummary(`Added ${added} image${added === 1 ? "" : "s"} to ${checkedItems.length} items` +
+                (skippedNames.length > 0 ? `, skipped ${skippedNames.length} already there: ${skippedNames.join(", ")}` : ""));
+        }
+    } catch (error) {
+        console.error("Error adding variant to items:", error);
+    }
+}
+
+async function handleClearOrphaned() {
+    try {
+        const count = await clearOrphanedMetadata();
+        showSummary(`Cleared Changr data from ${count} item${count === 1 ? "" : "s"}`);
+    } catch (error) {
+        console.error("Error clearing orphaned metadata:", error);
+    }
+}
+
+async function handleScanClick() {
+    const button = document.querySelector<HTMLButtonElement>("#scan-broken");
+    if (button) {
+        button.disabled = true;
+        button.textContent = "Scanning...";
+    }
+
+    try {
+        brokenItems = await scanSceneForBrokenVariants();
+        const count = brokenItems.reduce((total, item) => total + item.brokenOptions.length, 0);
+        showSummary(count === 0
+            ? "No broken variant images found"
+            : `Found ${count} broken variant image${count === 1 ? "" : "s"} on ${brokenItems.length} item${brokenItems.length === 1 ? "" : "s"}`);
+        renderBrokenItems();
+    } catch (error) {
+        console.error("Error scanning for broken images:", error);
+    } finally {
+        if (button) {
+            button.disabled = false;
+            button.textContent = "Scan scene";
+        }
+    }
+}
+
+async function handleApproveClick(proposal: VariantProposal) {
+    try {
+        if (await approveProposal(proposal)) {
+            showSummary(`Added "${proposal.imageOption.name}" to ${proposal.itemName}`);
+        }
+    } catch (error) {
+        console.error("Error approving image request:", error);
+    }
+}
+
+async function handleRejectClick(proposal: VariantProposal) {
+    try {
+        await rejectProposal(proposal);
+        showSummary(`Rejected "${proposal.imageOption.name}" for ${proposal.itemName}`);
+    } catch (error) {
+        console.error("Error rejecting image request:", error);
+    }
+}
+
+async function handleRestoreClick(entry: AuditEntry) {
+    try {
+        if (await restoreAuditEntry(entry)) {
+            showSummary(`Restored ${entry.itemName} to before the change by ${entry.playerName}`);
+        } else {
+            showSummary(`${entry.itemName} is no longer in the scene`);
+        }
+    } catch (error) {
+        console.error("Error restoring logged change:", error);
+    }
+}
+
+async function handleRowClick(itemId: string) {
+    try {
+        await focusItem(itemId);
+    } catch (error) {
+        console.error("Error focusing item:", error);
+    }
+}
+
+/**
+ * Everything the panel shows about the items with Changr data, to skip changes elsewhere in the scene
+ */
+function getManagedItemsKey(items: Item[]): string {
+    return JSON.stringify(items
+        .filter(item => item.metadata[METADATA_KEY] !== undefined)
+        .map(item => [
+            item.id,
+            item.name,
+            item.layer,
+            item.rotation,
+            item.scale,
+            isImage(item) ? item.image.url : undefined,
+            item.metadata[METADATA_KEY],
+        ]));
+}
+
+OBR.onReady(async () => {
+    await renderPanel();
+
+    // Item changes only redraw the data so the filters keep their focus
+    // Once scheduled a redraw isn't pushed back, so a running animation can't hold it off
+    let managedItemsKey = "";
+    let refreshTimer: number | undefined;
+    OBR.scene.items.onChange((items) => {
+        const key = getManagedItemsKey(items);
+        if (key === managedItemsKey) {
+            return;
+        }
+        managedItemsKey = key;
+        if (refreshTimer !== undefined) {
+            return;
+        }
+        refreshTimer = window.setTimeout(() => {
+            refreshTimer = undefined;
+            refreshData().catch(error => console.error("Error refreshing scene variants:", error));
+        }, REFRESH_DELAY);
+    });
+    onAuditLogChange(async () => {
+        await renderAuditLog();
+    });
+    onPendingProposalsChange(async () => {
+        await renderProposals();
+    });
+    OBR.scene.onReadyChange(async () => {
+        lastSummary = undefined;
+        brokenItems = undefined;
+        auditItemFilter = "";
+        auditPlayerFilter = "";
+        checkedIds.clear();
+        await renderPanel();
+    });
+    // Player changes fire on every selection, so only rebuild when the role flips
+    OBR.player.onChange(async (player) => {
+        const isShowingManager = document.querySelector("#manager-list") !== null;
+        if ((player.role === "GM") !== isShowingManager) {
+            await renderPanel();
+        }
+    });
+});
@@ -0,0 +1,244 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    isPlainObject,
+    isSameVariant,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+
+export type AnimationMode = "LOOP" | "PING_PONG" | "RANDOM";
+
+export const ANIMATION_MODES: { mode: AnimationMode; label: string }[] = [
+    { mode: "LOOP", label: "Loop" },
+    { mode: "PING_PONG", label: "Ping-pong" },
+    { mode: "RANDOM", label: "Random" },
+];
+
+/** Shortest allowed frame duration, to keep scene updates at a sane rate */
+export const MIN_FRAME_DURATION = 100;
+
+/** How often the background page checks for frames that are due */
+const TICK_INTERVAL = 50;
+
+/**
+ * A sequence of variants an item plays through on a timer
+ */
+export interface VariantAnimation {
+    optionIds: string[];
+    frameDuration: number;
+    mode: AnimationMode;
+    playing: boolean;
+}
+
+/**
+ * Type guard to check if an object is a valid VariantAnimation
+ */
+export function isVariantAnimation(obj: unknown): obj is VariantAnimation {
+    return (
+        isPlainObject(obj) &&
+        Array.isArray(obj.optionIds) &&
+        obj.optionIds.every(id => typeof id === 'string') &&
+        typeof obj.frameDuration === 'number' &&
+        ANIMATION_MODES.some(({ mode }) => mode === obj.mode) &&
+        typeof obj.playing === 'boolean'
+    );
+}
+
+/**
+ * Get the animation stored on an item, if any
+ */
+export function getItemAnimation(item: Item): VariantAnimation | undefined {
+    return getItemMetadata(item)?.animation;
+}
+
+/**
+ * Save an animation on the given items
+ * Frames are stored as each item's own copy of the variants
+ */
+export async function setItemAnimation(
+    itemIds: string[],
+    frames: ImageOption[],
+    animation: Omit<VariantAnimation, "optionIds">
+): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const optionIds = new Map<string, string[]>();
+    for (const item of items) {
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        const itemFrames = frames
+            .map(frame => imageOptions.find(option => isSameVariant(option, frame))?.id)
+            .filter((id): id is string => id !== undefined);
+        optionIds.set(item.id, itemFrames);
+    }
+
+    await OBR.scene.items.updateItems(
+        (item) => optionIds.has(item.id),
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    animation: {
+                        ...animation,
+                        frameDuration: Math.max(MIN_FRAME_DURATION, animation.frameDuration),
+                        optionIds: optionIds.get(item.id) ?? [],
+                    }
+                }));
+            }
+        }
+    );
+}
+
+/**
+ * Start or stop the animation of the given items
+ */
+export async function setAnimationPlaying(itemIds: string[], playing: boolean): Promise<void> {
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id),
+        (items) => {
+            for (const item of items) {
+                const animation = getItemAnimation(item);
+                if (!animation) continue;
+
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    animation: { ...animation, playing }
+                }));
+            }
+        }
+    );
+}
+
+/**
+ * Playback state of one item on the background page
+ */
+interface Playback {
+    // Serialized animation config, used to notice edits
+    config: string;
+    animation: VariantAnimation;
+    frames: ImageOption[];
+    frameIndex: number;
+    direction: 1 | -1;
+    nextFrameAt: number;
+}
+
+const playbacks = new Map<string, Playback>();
+let tickTimer: number | undefined;
+// Set while a tick's frames are being written, so slow writes don't pile up
+let isTicking = false;
+
+/**
+ * Pick the next frame index for a playback
+ */
+function advanceFrame(playback: Playback): number {
+    const count = playback.frames.length;
+    switch (playback.animation.mode) {
+        case "LOOP":
+            return (playback.frameIndex + 1) % count;
+        case "PING_PONG": {
+            if (playback.frameIndex + playback.direction < 0 || playback.frameIndex + playback.direction >= count) {
+                playback.direction = playback.direction === 1 ? -1 : 1;
+            }
+            return playback.frameIndex + playback.direction;
+        }
+        case "RANDOM": {
+            // Never repeat the same frame twice in a row
+            const offset = 1 + Math.floor(Math.random() * (count - 1));
+            return (playback.frameIndex + offset) % count;
+        }
+    }
+}
+
+/**
+ * Advance every playback that is due and write all their frames in one update
+ */
+async function tick(): Promise<void> {
+    if (isTicking) {
+        return;
+    }
+    const now = Date.now();
+    const updates = new Map<string, ImageOption>();
+    for (const [itemId, playback] of playbacks) {
+        if (playback.nextFrameAt > now) continue;
+
+        playback.frameIndex = advanceFrame(playback);
+        playback.nextFrameAt = now + playback.animation.frameDuration;
+        updates.set(itemId, playback.frames[playback.frameIndex]);
+    }
+
+    if (updates.size > 0) {
+        isTicking = true;
+        try {
+            // Frames would flood the switch history, so they are not recorded
+            await updateItemsWithImageOptions(updates, false);
+        } catch (error) {
+            console.error("Error playing variant animation:", error);
+        } finally {
+            isTicking = false;
+        }
+    }
+}
+
+function updateTimer(): void {
+    if (playbacks.size > 0 && tickTimer === undefined) {
+        tickTimer = window.setInterval(tick, TICK_INTERVAL);
+    } else if (playbacks.size === 0 && tickTimer !== undefined) {
+        window.clearInterval(tickTimer);
+        tickTimer = undefined;
+    }
+}
+
+/**
+ * Start, restart or stop playbacks to match the animations stored on the items
+ * Items that were deleted or stopped are dropped
+ */
+export async function syncAnimations(items: Item[]): Promise<void> {
+    const playingIds = new Set<string>();
+    for (const item of items) {
+        if (!isImage(item)) continue;
+
+        const animation = getItemAnimation(item);
+        if (!animation?.playing) continue;
+
+        const config = JSON.stringify(animation);
+        if (playbacks.get(item.id)?.config === config) {
+            playingIds.add(item.id);
+            continue;
+        }
+
+        // New or edited animation: resolve its frames once up front
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        const frames = animation.optionIds
+            .map(id => imageOptions.find(option => option.id === id))
+            .filter((option): option is ImageOption => option !== undefined);
+        if (frames.length < 2) continue;
+
+        const currentIndex = frames.findIndex(option => isImageOptionActive(item, option));
+        playbacks.set(item.id, {
+            config,
+            animation,
+            frames,
+            frameIndex: currentIndex === -1 ? frames.length - 1 : currentIndex,
+            direction: 1,
+            nextFrameAt: Date.now(),
+        });
+        playingIds.add(item.id);
+    }
+
+    for (const itemId of playbacks.keys()) {
+        if (!playingIds.has(itemId)) {
+            playbacks.delete(itemId);
+        }
+    }
+
+    updateTimer();
+}
+
+/**
+ * Stop every playback, e.g. when the scene closes
+ */
+export function stopAllAnimations(): void {
+    playbacks.clear();
+    updateTimer();
+}
@@ -0,0 +1,221 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import {
+    addImageOptionToItems,
+    canAddImageOptionsToItems,
+    canUpdateItem,
+    filterVisibleImageOptions,
+    getImageOptionErrors,
+    getItemImageOptions,
+    isImageOptionActive,
+    isPlainObject,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { cycleImageOptions, type CycleDirection } from "./cycle";
+import { expandToLinkedItems } from "./linkGroups";
+import { getCurrentActor } from "./audit";
+
+/**
+ * Broadcast channel other extensions send requests to
+ * Send requests with `destination: "LOCAL"` so they run with the sending player's permissions
+ */
+export const API_REQUEST_CHANNEL = getPluginId("api/request");
+
+/** Broadcast channel replies are sent back on, always to the local client */
+export const API_REPLY_CHANNEL = getPluginId("api/reply");
+
+/**
+ * A variant as seen through the API
+ */
+export interface ApiVariant {
+    id: string;
+    name: string;
+    url: string;
+    active: boolean;
+}
+
+/**
+ * A variant added through the API, other keys in the request are ignored
+ */
+export type ApiNewVariant = Pick<ImageOption, "url" | "width" | "height" | "name" | "dpi" | "offset" | "mime">;
+
+/**
+ * Requests other extensions can send to Changr
+ * Every request carries a requestId that is echoed back in the reply
+ */
+export type ApiRequest =
+    | { type: "LIST_VARIANTS"; requestId: string; itemId: string }
+    | { type: "SWITCH_VARIANT"; requestId: string; itemIds: string[]; variantId?: string; variantName?: string }
+    | { type: "CYCLE_VARIANT"; requestId: string; itemIds: string[]; direction: CycleDirection }
+    | {
+        type: "ADD_VARIANT";
+        requestId: string;
+        itemIds: string[];
+        variant: ApiNewVariant;
+    };
+
+/**
+ * The reply to a request, LIST_VARIANTS replies carry the variants
+ */
+export type ApiReply =
+    | { requestId: string; type: ApiRequest["type"]; success: true; variants?: ApiVariant[] }
+    | { requestId: string; type: ApiRequest["type"] | "UNKNOWN"; success: false; error: string };
+
+const REQUEST_TYPES: ApiRequest["type"][] = ["LIST_VARIANTS", "SWITCH_VARIANT", "CYCLE_VARIANT", "ADD_VARIANT"];
+
+function isStringList(obj: unknown): obj is string[] {
+    return Array.isArray(obj) && obj.every(entry => typeof entry === 'string');
+}
+
+/**
+ * Check the shape of an incoming request
+ * Throws with a readable message that is passed back in the reply
+ */
+function parseRequest(data: unknown): ApiRequest {
+    if (!isPlainObject(data) || typeof data.requestId !== 'string') {
+        throw new Error("Request must be an object with a requestId");
+    }
+    if (!REQUEST_TYPES.includes(data.type as ApiRequest["type"])) {
+        throw new Error(`Unknown request type ${String(data.type)}`);
+    }
+    if (data.type === "LIST_VARIANTS") {
+        if (typeof data.itemId !== 'string') {
+            throw new Error("itemId must be a string");
+        }
+    } else if (!isStringList(data.itemIds) || data.itemIds.length === 0) {
+        throw new Error("itemIds must be a non-empty list of strings");
+    }
+    if (data.type === "SWITCH_VARIANT" && typeof data.variantId !== 'string' && typeof data.variantName !== 'string') {
+        throw new Error("variantId or variantName is required");
+    }
+    if (data.type === "CYCLE_VARIANT" && data.direction !== "NEXT" && data.direction !== "PREVIOUS") {
+        throw new Error("direction must be NEXT or PREVIOUS");
+    }
+    if (data.type === "ADD_VARIANT") {
+        const errors = getImageOptionErrors({ ...isPlainObject(data.variant) ? data.variant : {}, id: "" });
+        if (errors.length > 0) {
+            throw new Error(`Invalid variant: ${errors.join(", ")}`);
+        }
+    }
+    return data as unknown as ApiRequest;
+}
+
+/**
+ * Get the requested image items, refusing the request if the player can't change all of them
+ */
+async function getUpdatableItems(itemIds: string[]): Promise<Item[]> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    if (items.length < itemIds.length || !items.every(isImage)) {
+        throw new Error("Some items were not found or are not images");
+    }
+    for (const item of items) {
+        if (!await canUpdateItem(item)) {
+            throw new Error(`Not allowed to change ${item.name}`);
+        }
+    }
+    return items;
+}
+
+async function listVariants(itemId: string): Promise<ApiVariant[]> {
+    const [item] = await getUpdatableItems([itemId]);
+    const imageOptions = await filterVisibleImageOptions(await getItemImageOptions(item) ?? []);
+    return imageOptions.map(option => ({
+        id: option.id,
+        name: option.name,
+        url: option.url,
+        active: isImageOptionActive(item, option),
+    }));
+}
+
+async function switchVariant(itemIds: string[], variantId?: string, variantName?: string): Promise<void> {
+    const items = await getUpdatableItems(itemIds);
+    const updates = new Map<string, ImageOption>();
+    for (const item of items) {
+        // Hidden variants are treated as missing so their names don't leak
+        const imageOptions = await filterVisibleImageOptions(await getItemImageOptions(item) ?? []);
+        const option = variantId
+            ? imageOptions.find(option => option.id === variantId)
+            : imageOptions.find(option => option.name.toLowerCase() === variantName?.toLowerCase());
+        if (!option) {
+            throw new Error(`${item.name} has no variant ${variantId ?? `"${variantName}"`}`);
+        }
+        if (!isImageOptionActive(item, option)) {
+            updates.set(item.id, option);
+        }
+    }
+    await updateItemsWithImageOptions(await expandToLinkedItems(updates), true, await getCurrentActor());
+}
+
+async function addVariant(itemIds: string[], variant: ApiNewVariant): Promise<void> {
+    const items = await getUpdatableItems(itemIds);
+    if (!await canAddImageOptionsToItems(items)) {
+        throw new Error("Not allowed to add variants to these items");
+    }
+
+    // Only the documented fields are stored, so other extensions can't write arbitrary metadata
+    const { url, width, height, name, dpi, offset, mime } = variant;
+    const imageOption: ImageOption = {
+        id: crypto.randomUUID(),
+        url,
+        width,
+        height,
+        name,
+        dpi,
+        offset: offset ? { x: offset.x, y: offset.y } : undefined,
+        mime,
+    };
+    const errors = getImageOptionErrors(imageOption);
+    if (errors.length > 0) {
+        throw new Error(`Invalid variant: ${errors.join(", ")}`);
+    }
+    await addImageOptionToItems(itemIds, imageOption);
+}
+
+/**
+ * Run a request and build its reply
+ */
+async function handleRequest(data: unknown): Promise<ApiReply> {
+    const requestId = isPlainObject(data) && typeof data.requestId === 'string' ? data.requestId : "";
+    const type = isPlainObject(data) && REQUEST_TYPES.includes(data.type as ApiRequest["type"])
+        ? data.type as ApiRequest["type"]
+        : "UNKNOWN";
+
+    try {
+        const request = parseRequest(data);
+        switch (request.type) {
+            case "LIST_VARIANTS":
+                return { requestId, type: request.type, success: true, variants: await listVariants(request.itemId) };
+            case "SWITCH_VARIANT":
+                await switchVariant(request.itemIds, request.variantId, request.variantName);
+                break;
+            case "CYCLE_VARIANT":
+                await getUpdatableItems(request.itemIds);
+                await cycleImageOptions(request.itemIds, request.direction);
+                break;
+            case "ADD_VARIANT":
+                await addVariant(request.itemIds, request.variant);
+                break;
+        }
+        return { requestId, type: request.type, success: true };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { requestId, type, success: false, error: message };
+    }
+}
+
+/**
+ * Listen for API requests from extensions running on this client
+ * Requests from other clients are ignored so each one is handled exactly once,
+ * with the permissions of the player who sent it
+ */
+export async function startApiListener(): Promise<void> {
+    const connectionId = await OBR.player.getConnectionId();
+    OBR.broadcast.onMessage(API_REQUEST_CHANNEL, async (event) => {
+        if (event.connectionId !== connectionId) {
+            return;
+        }
+        const reply = await handleRequest(event.data);
+        await OBR.broadcast.sendMessage(API_REPLY_CHANNEL, reply, { destination: "LOCAL" });
+    });
+}
@@ -0,0 +1,220 @@
+import { isVideoImageOption, type ImageOption } from "./helpers";
+import { getManagedItems } from "./manager";
+import { getPluginId } from "./getPluginId";
+
+/** How long an image gets to load before it is treated as unreachable */
+const URL_CHECK_TIMEOUT = 10000;
+
+/** How long a failed URL check is trusted before the URL is tried again */
+const FAILED_CHECK_TTL = 60000;
+
+/** Results of URL checks, successes are kept for as long as the page is open */
+const urlChecks = new Map<string, Promise<boolean>>();
+
+/** Longest side of a video poster frame, big enough for the hover preview */
+const POSTER_SIZE = 192;
+
+/** Poster frames being captured or read, kept for as long as the page is open */
+const posters = new Map<string, Promise<string | undefined>>();
+
+/** Local storage key of the cached posters' URLs, least recently used first */
+const POSTER_INDEX_KEY = getPluginId("posterIndex");
+
+/** Most posters kept in local storage, about 15KB each */
+const MAX_CACHED_POSTERS = 50;
+
+/**
+ * An item in the scene with variants whose image can't be loaded
+ */
+export interface BrokenVariantItem {
+    id: string;
+    name: string;
+    brokenOptions: ImageOption[];
+}
+
+/**
+ * Try to load an image or the metadata of a video
+ * Media elements are used instead of fetch so URLs without CORS headers still work
+ */
+function loadMedia(url: string, isVideo: boolean): Promise<boolean> {
+    return new Promise((resolve) => {
+        const element = isVideo ? document.createElement("video") : document.createElement("img");
+        const finish = (reachable: boolean) => {
+            window.clearTimeout(timer);
+            element.removeAttribute("src");
+            resolve(reachable);
+        };
+
+        const timer = window.setTimeout(() => finish(false), URL_CHECK_TIMEOUT);
+        element.onerror = () => finish(false);
+        if (element instanceof HTMLVideoElement) {
+            element.preload = "metadata";
+            element.onloadedmetadata = () => finish(true);
+        } else {
+            element.onload = () => finish(true);
+        }
+        element.src = url;
+    });
+}
+
+/**
+ * Check if the image of a variant can be loaded
+ * URLs that load are only checked once per page load, failures expire after a
+ * minute so a fixed upload or a network blip doesn't stick
+ */
+export function isImageOptionReachable(option: ImageOption): Promise<boolean> {
+    let check = urlChecks.get(option.url);
+    if (!check) {
+        check = loadMedia(option.url, isVideoImageOption(option));
+        urlChecks.set(option.url, check);
+        check.then((reachable) => {
+            if (!reachable) {
+                window.setTimeout(() => urlChecks.delete(option.url), FAILED_CHECK_TTL);
+            }
+        });
+    }
+    return check;
+}
+
+/**
+ * Get the URLs of the given variants whose images can't be loaded
+ */
+export async function findBrokenImageUrls(imageOptions: ImageOption[]): Promise<Set<string>> {
+    const results = await Promise.all(imageOptions.map(async (option) => ({
+        url: option.url,
+        reachable: await isImageOptionReachable(option),
+    })));
+    return new Set(results.filter(result => !result.reachable).map(result => result.url));
+}
+
+/**
+ * Check every variant in the scene and list the items with broken ones, sorted by name
+ */
+export async function scanSceneForBrokenVariants(): Promise<BrokenVariantItem[]> {
+    const items = await getManagedItems();
+    const brokenUrls = await findBrokenImageUrls(items.flatMap(item => item.imageOptions));
+    return items
+        .map(item => ({
+            id: item.id,
+            name: item.name,
+            brokenOptions: item.imageOptions.filter(option => brokenUrls.has(option.url)),
+        }))
+        .filter(item => item.brokenOptions.length > 0);
+}
+
+/**
+ * Draw the first frame of a video into a small JPEG data URL
+ * Resolves to undefined when the video can't be loaded or doesn't allow reading its pixels
+ */
+function capturePoster(url: string): Promise<string | undefined> {
+    return new Promise((resolve) => {
+        const video = document.createElement("video");
+        const finish = (poster: string | undefined) => {
+            window.clearTimeout(timer);
+            video.removeAttribute("src");
+            video.load();
+            resolve(poster);
+        };
+
+        const timer = window.setTimeout(() => finish(undefined), URL_CHECK_TIMEOUT);
+        video.crossOrigin = "anonymous";
+        video.muted = true;
+        video.preload = "auto";
+        video.onerror = () => finish(undefined);
+        video.onloadeddata = () => {
+            try {
+                const scale = Math.min(1, POSTER_SIZE / Math.max(video.videoWidth, video.videoHeight));
+                const canvas = document.createElement("canvas");
+                canvas.width = Math.round(video.videoWidth * scale);
+                canvas.height = Math.round(video.videoHeight * scale);
+                canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+                finish(canvas.toDataURL("image/jpeg", 0.8));
+            } catch {
+                // Videos served without CORS headers can't be read back
+                finish(undefined);
+            }
+        };
+        video.src = url;
+    });
+}
+
+function getPosterKey(url: string): string {
+    return getPluginId(`poster/${url}`);
+}
+
+function readPosterIndex(): string[] {
+    try {
+        const index: unknown = JSON.parse(localStorage.getItem(POSTER_INDEX_KEY) ?? "[]");
+        return Array.isArray(index) ? index.filter((url): url is string => typeof url === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+function isQuotaExceededError(error: unknown): boolean {
+    return error instanceof DOMException &&
+        (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+/**
+ * Read a cached poster and mark it as the most recently used
+ */
+function readCachedPoster(url: string): string | null {
+    const poster = localStorage.getItem(getPosterKey(url));
+    if (poster) {
+        try {
+            localStorage.setItem(POSTER_INDEX_KEY, JSON.stringify([...readPosterIndex().filter(cached => cached !== url), url]));
+        } catch (error) {
+            console.warn("Could not update the video poster cache:", error);
+        }
+    }
+    return poster;
+}
+
+/**
+ * Store a poster, dropping the least recently used ones past the limit
+ * or until it fits when the storage is full
+ */
+function cachePoster(url: string, poster: string): void {
+    const index = readPosterIndex().filter(cached => cached !== url);
+    const evictOldest = () => localStorage.removeItem(getPosterKey(index.shift()!));
+    while (index.length >= MAX_CACHED_POSTERS) {
+        evictOldest();
+    }
+
+    for (;;) {
+        try {
+            localStorage.setItem(getPosterKey(url), poster);
+            localStorage.setItem(POSTER_INDEX_KEY, JSON.stringify([...index, url]));
+            return;
+        } catch (error) {
+            if (isQuotaExceededError(error) && index.length > 0) {
+                evictOldest();
+                continue;
+            }
+            // Not caching only means the frame is captured again next time
+            localStorage.removeItem(getPosterKey(url));
+            console.warn("Could not cache video poster:", error);
+            return;
+        }
+    }
+}
+
+/**
+ * Get a still frame of a video variant to show instead of a live video element
+ * Frames are cached in local storage so reopening the popover doesn't load the video again
+ */
+export function getVideoPoster(url: string): Promise<string | undefined> {
+    let poster = posters.get(url);
+    if (!poster) {
+        const stored = readCachedPoster(url);
+        poster = stored ? Promise.resolve(stored) : capturePoster(url).then((captured) => {
+            if (captured) {
+                cachePoster(url, captured);
+            }
+            return captured;
+        });
+        posters.set(url, poster);
+    }
+    return poster;
+}
@@ -0,0 +1,306 @@
+import OBR, { isImage, type Image, type Item, type Vector2 } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    isPlainObject,
+    isSameVariant,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+import { rotateVector } from "./switchModes";
+
+/**
+ * An attached item stored with a variant, created when the variant becomes active
+ * The position and rotation are relative to the token, so they follow it around
+ */
+export interface AttachmentTemplate {
+    // The stored item without its id, parent link, position or rotation
+    item: Record<string, unknown>;
+    offset: Vector2;
+    rotation: number;
+}
+
+/**
+ * Changes a variant makes to the items attached to its token while it is active
+ */
+export interface VariantAttachments {
+    // Attached items to show or hide, by id
+    visibility?: Record<string, boolean>;
+    templates?: AttachmentTemplate[];
+}
+
+/**
+ * What the active variant changed on a token's attachments, so it can be undone
+ */
+export interface AttachmentState {
+    optionId: string;
+    createdIds: string[];
+    // Visibility of the attached items before the variant changed it
+    previousVisibility: Record<string, boolean>;
+}
+
+/** Item fields that are set when a template is created rather than stored */
+const TEMPLATE_OMITTED_KEYS = [
+    "id",
+    "attachedTo",
+    "position",
+    "rotation",
+    "createdUserId",
+    "lastModified",
+    "lastModifiedUserId",
+];
+
+function isVector2(obj: unknown): obj is Vector2 {
+    return isPlainObject(obj) && typeof obj.x === 'number' && typeof obj.y === 'number';
+}
+
+function isBooleanRecord(obj: unknown): obj is Record<string, boolean> {
+    return isPlainObject(obj) && Object.values(obj).every(value => typeof value === 'boolean');
+}
+
+/**
+ * Type guard to check if an object is a valid AttachmentTemplate
+ */
+function isAttachmentTemplate(obj: unknown): obj is AttachmentTemplate {
+    return (
+        isPlainObject(obj) &&
+        isPlainObject(obj.item) &&
+        typeof obj.item.type === 'string' &&
+        isVector2(obj.offset) &&
+        typeof obj.rotation === 'number'
+    );
+}
+
+/**
+ * Type guard to check if an object is a valid VariantAttachments
+ */
+export function isVariantAttachments(obj: unknown): obj is VariantAttachments {
+    return (
+        isPlainObject(obj) &&
+        (obj.visibility === undefined || isBooleanRecord(obj.visibility)) &&
+        (obj.templates === undefined || (Array.isArray(obj.templates) && obj.templates.every(isAttachmentTemplate)))
+    );
+}
+
+/**
+ * Type guard to check if an object is a valid AttachmentState
+ */
+export function isAttachmentState(obj: unknown): obj is AttachmentState {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.optionId === 'string' &&
+        Array.isArray(obj.createdIds) &&
+        obj.createdIds.every(id => typeof id === 'string') &&
+        isBooleanRecord(obj.previousVisibility)
+    );
+}
+
+/**
+ * Check if a switch could change any attachments of an item
+ */
+export function hasAttachmentChanges(item: Item, imageOption?: ImageOption): boolean {
+    return imageOption?.attachments !== undefined || getItemMetadata(item)?.attachmentState !== undefined;
+}
+
+/**
+ * Store an attached item as a template relative to its token
+ */
+function createTemplate(parent: Image, child: Item): AttachmentTemplate {
+    const item: Record<string, unknown> = { ...structuredClone(child) };
+    for (const key of TEMPLATE_OMITTED_KEYS) {
+        delete item[key];
+    }
+    return {
+        item,
+        offset: rotateVector({ x: child.position.x - parent.position.x, y: child.position.y - parent.position.y }, -parent.rotation),
+        rotation: child.rotation - parent.rotation,
+    };
+}
+
+/**
+ * Build a new item from a template, attached to a token
+ */
+function createFromTemplate(parent: Image, template: AttachmentTemplate): Item {
+    const offset = rotateVector(template.offset, parent.rotation);
+    return {
+        ...structuredClone(template.item),
+        id: crypto.randomUUID(),
+        attachedTo: parent.id,
+        position: { x: parent.position.x + offset.x, y: parent.position.y + offset.y },
+        rotation: parent.rotation + template.rotation,
+        createdUserId: OBR.player.id,
+        lastModified: new Date().toISOString(),
+        lastModifiedUserId: OBR.player.id,
+    } as Item;
+}
+
+/**
+ * Bring the attachments of the given tokens in line with the variants they show
+ * The changes of the previously active variant are undone first, then the
+ * visibility and templates of the newly active variant are applied
+ */
+export async function syncAttachments(itemIds: string[]): Promise<void> {
+    const parents = (await OBR.scene.items.getItems(itemIds)).filter(isImage);
+    const parentIds = new Set(parents.map(parent => parent.id));
+    const attachedItems = await OBR.scene.items.getItems(item => item.attachedTo !== undefined && parentIds.has(item.attachedTo));
+    const attachedIds = new Set(attachedItems.map(item => item.id));
+
+    const visibility = new Map<string, boolean>();
+    const deleteIds: string[] = [];
+    const newItems: Item[] = [];
+    const states = new Map<string, AttachmentState | undefined>();
+
+    for (const parent of parents) {
+        const previous = getItemMetadata(parent)?.attachmentState;
+        const imageOptions = await getItemImageOptions(parent) ?? [];
+        const active = imageOptions.find(option => isImageOptionActive(parent, option));
+        if (previous?.optionId === active?.id || (!previous && !active?.attachments)) {
+            continue;
+        }
+
+        if (previous) {
+            for (const [id, visible] of Object.entries(previous.previousVisibility)) {
+                visibility.set(id, visible);
+            }
+            deleteIds.push(...previous.createdIds.filter(id => attachedIds.has(id)));
+        }
+
+        if (!active?.attachments) {
+            states.set(parent.id, undefined);
+            continue;
+        }
+
+        const previousVisibility: Record<string, boolean> = {};
+        for (const [id, visible] of Object.entries(active.attachments.visibility ?? {})) {
+            const child = attachedItems.find(item => item.id === id && item.attachedTo === parent.id);
+            if (!child || deleteIds.includes(id)) continue;
+            // An item restored above is remembered with its restored visibility
+            previousVisibility[id] = visibility.get(id) ?? child.visible;
+            visibility.set(id, visible);
+        }
+
+        const created = (active.attachments.templates ?? []).map(template => createFromTemplate(parent, template));
+        newItems.push(...created);
+        states.set(parent.id, {
+            optionId: active.id,
+            createdIds: created.map(item => item.id),
+            previousVisibility,
+        });
+    }
+
+    if (states.size === 0) {
+        return;
+    }
+
+    if (deleteIds.length > 0) {
+        await OBR.scene.items.deleteItems(deleteIds);
+    }
+    const visibilityIds = [...visibility.keys()].filter(id => attachedIds.has(id) && !deleteIds.includes(id));
+    if (visibilityIds.length > 0) {
+        await OBR.scene.items.updateItems(visibilityIds, (items) => {
+            for (const item of items) {
+                item.visible = visibility.get(item.id)!;
+            }
+        });
+    }
+    if (newItems.length > 0) {
+        await OBR.scene.items.addItems(newItems);
+    }
+    await OBR.scene.items.updateItems([...states.keys()], (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({ ...metadata, attachmentState: states.get(item.id) }));
+        }
+    });
+}
+
+/**
+ * Update the attachments of a variant in each item's own variant list
+ * Returns the number of items whose variant was updated, variants that only
+ * come from a library can't hold attachments since their items differ
+ */
+async function updateVariantAttachments(
+    itemIds: string[],
+    imageOption: ImageOption,
+    getAttachments: (parent: Image, ownOption: ImageOption) => Promise<VariantAttachments | undefined>
+): Promise<number> {
+    const parents = (await OBR.scene.items.getItems(itemIds)).filter(isImage);
+    const attachments = new Map<string, VariantAttachments | undefined>();
+    for (const parent of parents) {
+        const ownOption = getItemMetadata(parent)?.imageOptions.find(option => isSameVariant(option, imageOption));
+        if (ownOption) {
+            attachments.set(parent.id, await getAttachments(parent, ownOption));
+        }
+    }
+
+    if (attachments.size > 0) {
+        await OBR.scene.items.updateItems([...attachments.keys()], (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    imageOptions: metadata.imageOptions.map(option =>
+                        isSameVariant(option, imageOption) ? { ...option, attachments: attachments.get(item.id) } : option
+                    ),
+                }));
+            }
+        });
+    }
+    return attachments.size;
+}
+
+/**
+ * Remember which attached items are visible right now, to restore whenever the variant becomes active
+ * Items created by the active variant are left out since they come and go with it
+ */
+export async function recordAttachmentVisibility(itemIds: string[], imageOption: ImageOption): Promise<number> {
+    return updateVariantAttachments(itemIds, imageOption, async (parent, ownOption) => {
+        const createdIds = getItemMetadata(parent)?.attachmentState?.createdIds ?? [];
+        const children = await OBR.scene.items.getItems(item => item.attachedTo === parent.id && !createdIds.includes(item.id));
+        const visibility = Object.fromEntries(children.map(child => [child.id, child.visible]));
+        return { ...ownOption.attachments, visibility };
+    });
+}
+
+/**
+ * Store the items attached to each token showing the variant as its templates
+ * The stored items are handed over to the variant, so switching away removes
+ * them instead of leaving a duplicate behind when switching back
+ */
+export async function recordAttachmentTemplates(itemIds: string[], imageOption: ImageOption): Promise<number> {
+    const adopted = new Map<string, string[]>();
+    const count = await updateVariantAttachments(itemIds, imageOption, async (parent, ownOption) => {
+        // Tokens showing another variant would get a second copy of their attachments
+        if (!isImageOptionActive(parent, ownOption)) {
+            return ownOption.attachments;
+        }
+        const children = await OBR.scene.items.getItems(item => item.attachedTo === parent.id);
+        adopted.set(parent.id, children.map(child => child.id));
+        return { ...ownOption.attachments, templates: children.map(child => createTemplate(parent, child)) };
+    });
+
+    if (adopted.size > 0) {
+        await OBR.scene.items.updateItems([...adopted.keys()], (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => {
+                    const state = metadata.attachmentState?.optionId === imageOption.id ? metadata.attachmentState : undefined;
+                    return {
+                        ...metadata,
+                        attachmentState: {
+                            optionId: imageOption.id,
+                            createdIds: adopted.get(item.id)!,
+                            previousVisibility: state?.previousVisibility ?? {},
+                        },
+                    };
+                });
+            }
+        });
+    }
+    return count;
+}
+
+/**
+ * Stop a variant from changing attachments
+ * Whatever it changed stays as it is until the token switches away
+ */
+export async function clearVariantAttachments(itemIds: string[], imageOption: ImageOption): Promise<number> {
+    return updateVariantAttachments(itemIds, imageOption, async () => undefined);
+}
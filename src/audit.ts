@@ -0,0 +1,189 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import {
+    addImageOptionToItems,
+    captureImageState,
+    getItemImageOptions,
+    isImageOption,
+    isImageOptionActive,
+    isPlainObject,
+    removeImageOption,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+
+export type AuditAction = "SWITCH" | "ADD" | "REMOVE";
+
+/**
+ * The player a logged change is credited to
+ */
+export interface AuditActor {
+    playerId: string;
+    playerName: string;
+}
+
+/**
+ * One change to an item's variants, as shown in the GM's change log
+ */
+export interface AuditEntry {
+    id: string;
+    time: string;
+    action: AuditAction;
+    playerId: string;
+    playerName: string;
+    itemId: string;
+    itemName: string;
+    // Variant names, fromName is missing when the item showed a custom image
+    fromName?: string;
+    toName?: string;
+    // How the item looked before a switch, or the variant that was added or removed
+    restoreOption: ImageOption;
+}
+
+/** Scene metadata key of the change log */
+const AUDIT_LOG_KEY = getPluginId("auditLog");
+
+/** The log shares the scene metadata with the libraries, so only the latest entries are kept */
+const MAX_AUDIT_ENTRIES = 30;
+
+const AUDIT_ACTIONS: AuditAction[] = ["SWITCH", "ADD", "REMOVE"];
+
+/**
+ * Type guard to check if an object is a valid AuditEntry
+ */
+function isAuditEntry(obj: unknown): obj is AuditEntry {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.id === 'string' &&
+        typeof obj.time === 'string' &&
+        AUDIT_ACTIONS.includes(obj.action as AuditAction) &&
+        typeof obj.playerId === 'string' &&
+        typeof obj.playerName === 'string' &&
+        typeof obj.itemId === 'string' &&
+        typeof obj.itemName === 'string' &&
+        (obj.fromName === undefined || typeof obj.fromName === 'string') &&
+        (obj.toName === undefined || typeof obj.toName === 'string') &&
+        isImageOption(obj.restoreOption)
+    );
+}
+
+/**
+ * Get the change log of the current scene, newest first
+ */
+export async function getAuditLog(): Promise<AuditEntry[]> {
+    const metadata = await OBR.scene.getMetadata();
+    const entries = metadata[AUDIT_LOG_KEY];
+    return Array.isArray(entries) ? entries.filter(isAuditEntry) : [];
+}
+
+/**
+ * Subscribe to changes of the change log
+ * Other scene metadata changes are ignored
+ */
+export function onAuditLogChange(callback: () => void): () => void {
+    let lastEntries: string | undefined;
+    return OBR.scene.onMetadataChange((metadata) => {
+        const entries = JSON.stringify(metadata[AUDIT_LOG_KEY] ?? null);
+        if (entries !== lastEntries) {
+            callback();
+        }
+        lastEntries = entries;
+    });
+}
+
+/**
+ * Add entries to the front of the log, dropping the oldest past the limit
+ */
+export async function appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) {
+        return;
+    }
+    const log = await getAuditLog();
+    await OBR.scene.setMetadata({ [AUDIT_LOG_KEY]: [...entries, ...log].slice(0, MAX_AUDIT_ENTRIES) });
+}
+
+/**
+ * Get the player on this client, to credit the changes they make
+ */
+export async function getCurrentActor(): Promise<AuditActor> {
+    return { playerId: OBR.player.id, playerName: await OBR.player.getName() };
+}
+
+function createEntry(
+    action: AuditAction,
+    actor: AuditActor,
+    item: Item,
+    restoreOption: ImageOption,
+    names: { fromName?: string; toName?: string }
+): AuditEntry {
+    return {
+        id: crypto.randomUUID(),
+        time: new Date().toISOString(),
+        action,
+        ...actor,
+        itemId: item.id,
+        itemName: item.name,
+        ...names,
+        restoreOption,
+    };
+}
+
+/**
+ * Describe a batch of switches before it runs, while the items still show their old variants
+ * Pass the result to appendAuditEntries once the switch is done
+ */
+export async function describeSwitches(imageOptions: Map<string, ImageOption>, actor: AuditActor): Promise<AuditEntry[]> {
+    const items = (await OBR.scene.items.getItems([...imageOptions.keys()])).filter(isImage);
+    const entries: AuditEntry[] = [];
+    for (const item of items) {
+        const previous = (await getItemImageOptions(item) ?? []).find(option => isImageOptionActive(item, option));
+        entries.push(createEntry("SWITCH", actor, item, captureImageState(item, previous?.name ?? item.name), {
+            fromName: previous?.name,
+            toName: imageOptions.get(item.id)!.name,
+        }));
+    }
+    return entries;
+}
+
+/**
+ * Add variants added to or removed from items to the log
+ */
+export async function recordVariantChanges(
+    action: "ADD" | "REMOVE",
+    changes: { item: Item; imageOption: ImageOption }[]
+): Promise<void> {
+    const actor = await getCurrentActor();
+    const entries: AuditEntry[] = [];
+    for (const { item, imageOption } of changes) {
+        entries.push(createEntry(action, actor, item, imageOption, action === "ADD"
+            ? { toName: imageOption.name }
+            : { fromName: imageOption.name }));
+    }
+    await appendAuditEntries(entries);
+}
+
+/**
+ * Put an item back the way it was before a logged change
+ * Switches are reverted to the captured image, added variants are removed
+ * and removed variants are added back
+ * Returns false when the item is no longer in the scene
+ */
+export async function restoreAuditEntry(entry: AuditEntry): Promise<boolean> {
+    const [item] = await OBR.scene.items.getItems([entry.itemId]);
+    if (!item) {
+        return false;
+    }
+
+    switch (entry.action) {
+        case "SWITCH":
+            await updateItemsWithImageOptions(new Map([[entry.itemId, entry.restoreOption]]), true, await getCurrentActor());
+            break;
+        case "ADD":
+            await removeImageOption(entry.restoreOption, [entry.itemId]);
+            break;
+        case "REMOVE":
+            await addImageOptionToItems([entry.itemId], entry.restoreOption);
+            break;
+    }
+    return true;
+}
@@ -1,9 +1,46 @@
-import OBR from "@owlbear-rodeo/sdk";
+import OBR, { isImage, type KeyFilter } from "@owlbear-rodeo/sdk";
 import { getPluginId } from "./getPluginId";
+import { cycleImageOptions, resetToOriginalImageOption } from "./cycle";
+import { filterVisibleImageOptions, getItemImageOptions, isPrimaryGM, type ImageOption } from "./helpers";
+import { EMBED_MIN_HEIGHT, getEmbedHeight, needsSearchBar } from "./embed";
+import { applyVariantRules } from "./rules";
+import { stopAllAnimations, syncAnimations } from "./animation";
+import { applyAutoFacing, resetAutoFacing } from "./facing";
+import { randomizeItems } from "./randomize";
+import { syncLinkGroupsFromRoom } from "./linkGroups";
+import { revertToPreviousState, undoLastSwitch } from "./history";
+import { METADATA_KEY } from "./metadata";
+import { startApiListener } from "./api";
+import { startProposalListener } from "./proposals";
 
-// Wait for the SDK to be ready
-OBR.onReady(async () => {
-    // Set up the context menu for image items
+/** Filter matching image items that have been set up with Changr */
+const changrImageFilter: KeyFilter[] = [
+    { key: "type", value: "IMAGE" },
+    { key: ["metadata", getPluginId("metadata")], value: undefined, operator: "!=" },
+];
+
+/** Filter matching Changr image items that have switches to undo */
+const historyImageFilter: KeyFilter[] = [
+    ...changrImageFilter,
+    { key: ["metadata", METADATA_KEY, "history"], value: undefined, operator: "!=" },
+];
+
+/** The built in select/move tool the cycling hotkeys are attached to */
+const MOVE_TOOL_ID = "rodeo.owlbear.tool/move";
+
+/**
+ * Get the ids of the current player's selected items
+ */
+async function getSelectedItemIds(): Promise<string[]> {
+    const selection = await OBR.player.getSelection();
+    return selection ?? [];
+}
+
+/**
+ * Set up the context menu that opens the popover for image items
+ * Creating it again with the same id replaces it, which is how the embed is resized
+ */
+async function createChangeImageMenu(height: number): Promise<void> {
     await OBR.contextMenu.create({
         id: getPluginId("menu"),
         icons: [
@@ -18,7 +55,290 @@ OBR.onReady(async () => {
         ],
         embed: {
             url: "/",
-            height: 124,
+            height,
+        }
+    });
+}
+
+/**
+ * Get the embed height that fits the variants of the selected items
+ */
+async function getSelectionEmbedHeight(selection: string[]): Promise<number> {
+    const items = (await OBR.scene.items.getItems(selection)).filter(isImage);
+    const imageOptions = new Map<string, ImageOption>();
+    for (const item of items) {
+        for (const option of await filterVisibleImageOptions(await getItemImageOptions(item) ?? [])) {
+            imageOptions.set(option.id, option);
+        }
+    }
+    return getEmbedHeight(imageOptions.size, needsSearchBar([...imageOptions.values()]));
+}
+
+// Wait for the SDK to be ready
+OBR.onReady(async () => {
+    // The embed can't be resized while open, so it is sized for the selection before it is opened
+    let embedHeight = EMBED_MIN_HEIGHT;
+    let selectionKey = "";
+    await createChangeImageMenu(embedHeight);
+    OBR.player.onChange(async (player) => {
+        const key = JSON.stringify(player.selection ?? []);
+        if (key === selectionKey) {
+            return;
+        }
+        selectionKey = key;
+        try {
+            const height = await getSelectionEmbedHeight(player.selection ?? []);
+            if (height !== embedHeight) {
+                embedHeight = height;
+                await createChangeImageMenu(height);
+            }
+        } catch (error) {
+            console.error("Error resizing the variant menu:", error);
+        }
+    });
+
+    // Context menu entries to step through variants without opening the popover
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/next"),
+        icons: [
+            {
+                icon: "/next.svg",
+                label: "Next Image",
+                filter: {
+                    every: changrImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await cycleImageOptions(context.items.map(item => item.id), "NEXT");
+            } catch (error) {
+                console.error("Error switching to the next image:", error);
+            }
+        }
+    });
+
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/previous"),
+        icons: [
+            {
+                icon: "/previous.svg",
+                label: "Previous Image",
+                filter: {
+                    every: changrImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await cycleImageOptions(context.items.map(item => item.id), "PREVIOUS");
+            } catch (error) {
+                console.error("Error switching to the previous image:", error);
+            }
+        }
+    });
+
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/reset"),
+        icons: [
+            {
+                icon: "/reset.svg",
+                label: "Reset to Original Image",
+                filter: {
+                    every: changrImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await resetToOriginalImageOption(context.items.map(item => item.id));
+            } catch (error) {
+                console.error("Error resetting to the original image:", error);
+            }
+        }
+    });
+
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/randomize"),
+        icons: [
+            {
+                icon: "/random.svg",
+                label: "Randomize Images",
+                filter: {
+                    every: changrImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await randomizeItems(context.items.map(item => item.id));
+            } catch (error) {
+                console.error("Error randomizing images:", error);
+            }
+        }
+    });
+
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/undo"),
+        icons: [
+            {
+                icon: "/undo.svg",
+                label: "Undo Last Image Change",
+                filter: {
+                    every: historyImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await undoLastSwitch(context.items.map(item => item.id));
+            } catch (error) {
+                console.error("Error undoing the last image change:", error);
+            }
         }
     });
-});
\ No newline at end of file
+
+    await OBR.contextMenu.create({
+        id: getPluginId("menu/revert"),
+        icons: [
+            {
+                icon: "/revert.svg",
+                label: "Revert to Previous Image",
+                filter: {
+                    every: historyImageFilter,
+                    permissions: ["UPDATE"]
+                }
+            }
+        ],
+        onClick: async (context) => {
+            try {
+                await revertToPreviousState(context.items.map(item => item.id));
+            } catch (error) {
+                console.error("Error reverting to the previous image:", error);
+            }
+        }
+    });
+
+    // Hotkeys on the move tool that act on the current selection
+    await OBR.tool.createAction({
+        id: getPluginId("action/next"),
+        icons: [
+            {
+                icon: "/next.svg",
+                label: "Next Image",
+                filter: { activeTools: [MOVE_TOOL_ID] }
+            }
+        ],
+        shortcut: "]",
+        onClick: async () => {
+            try {
+                await cycleImageOptions(await getSelectedItemIds(), "NEXT");
+            } catch (error) {
+                console.error("Error switching to the next image:", error);
+            }
+        }
+    });
+
+    await OBR.tool.createAction({
+        id: getPluginId("action/previous"),
+        icons: [
+            {
+                icon: "/previous.svg",
+                label: "Previous Image",
+                filter: { activeTools: [MOVE_TOOL_ID] }
+            }
+        ],
+        shortcut: "[",
+        onClick: async () => {
+            try {
+                await cycleImageOptions(await getSelectedItemIds(), "PREVIOUS");
+            } catch (error) {
+                console.error("Error switching to the previous image:", error);
+            }
+        }
+    });
+
+    await OBR.tool.createAction({
+        id: getPluginId("action/reset"),
+        icons: [
+            {
+                icon: "/reset.svg",
+                label: "Reset to Original Image",
+                filter: { activeTools: [MOVE_TOOL_ID] }
+            }
+        ],
+        shortcut: "\\",
+        onClick: async () => {
+            try {
+                await resetToOriginalImageOption(await getSelectedItemIds());
+            } catch (error) {
+                console.error("Error resetting to the original image:", error);
+            }
+        }
+    });
+
+    // Let other extensions switch and add variants over OBR.broadcast
+    await startApiListener();
+
+    // Pass players' proposed variants to the GM and the GM's answers back
+    startProposalListener();
+
+    // Switch variants automatically when item metadata matches a rule or an
+    // auto-facing item is moved, and keep animation playback in step with the items
+    // Only one pass runs at a time, changes that arrive meanwhile mark the scene dirty
+    // and are handled by a single extra pass that re-reads the items, so animation
+    // frames written many times a second never build up a backlog of passes
+    // Linked groups that reach across scenes catch up once each time a scene is opened
+    let isRunning = false;
+    let isDirty = false;
+    let syncLinkGroups = true;
+    const runScenePass = async () => {
+        if (!await OBR.scene.isReady()) {
+            stopAllAnimations();
+            resetAutoFacing();
+            return;
+        }
+        if (!await isPrimaryGM()) {
+            stopAllAnimations();
+            resetAutoFacing();
+            return;
+        }
+        if (syncLinkGroups) {
+            syncLinkGroups = false;
+            await syncLinkGroupsFromRoom();
+        }
+        const items = await OBR.scene.items.getItems();
+        await applyVariantRules(items);
+        await applyAutoFacing(items);
+        await syncAnimations(items);
+    };
+    const handleSceneChange = async () => {
+        isDirty = true;
+        if (isRunning) {
+            return;
+        }
+        isRunning = true;
+        while (isDirty) {
+            isDirty = false;
+            try {
+                await runScenePass();
+            } catch (error) {
+                console.error("Error handling scene change:", error);
+            }
+        }
+        isRunning = false;
+    };
+
+    OBR.scene.items.onChange(handleSceneChange);
+    OBR.scene.onReadyChange(() => {
+        syncLinkGroups = true;
+        handleSceneChange();
+    });
+    OBR.party.onChange(handleSceneChange);
+    handleSceneChange();
+});
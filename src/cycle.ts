@@ -0,0 +1,99 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    filterVisibleImageOptions,
+    getDefaultImageOptionId,
+    getItemImageOptions,
+    getItemOwnImageOptions,
+    isImageOptionActive,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { expandToLinkedItems } from "./linkGroups";
+import { getCurrentActor } from "./audit";
+
+export type CycleDirection = "NEXT" | "PREVIOUS";
+
+/**
+ * Pick the option after or before the one an item is currently showing
+ * Wraps around at both ends; an item showing no known option starts at the edge
+ */
+export function getCycledImageOption(
+    item: Item,
+    imageOptions: ImageOption[],
+    direction: CycleDirection
+): ImageOption | undefined {
+    if (imageOptions.length === 0) {
+        return undefined;
+    }
+
+    const currentIndex = imageOptions.findIndex(option => isImageOptionActive(item, option));
+    if (currentIndex === -1) {
+        return direction === "NEXT" ? imageOptions[0] : imageOptions[imageOptions.length - 1];
+    }
+
+    const step = direction === "NEXT" ? 1 : -1;
+    return imageOptions[(currentIndex + step + imageOptions.length) % imageOptions.length];
+}
+
+/**
+ * Get the option an item resets to
+ * This is the variant marked as default, else the first option stored on the
+ * item itself, falling back to the first resolved option
+ */
+export function getOriginalImageOption(item: Item, imageOptions: ImageOption[]): ImageOption | undefined {
+    const defaultOptionId = getDefaultImageOptionId(item);
+    const defaultOption = imageOptions.find(option => option.id === defaultOptionId);
+    if (defaultOption) {
+        return defaultOption;
+    }
+
+    // Look the own option up in the resolved list, which may have hidden variants filtered out
+    const ownOptions = getItemOwnImageOptions(item);
+    return imageOptions.find(option => ownOptions.some(own => own.id === option.id)) ?? imageOptions[0];
+}
+
+/**
+ * Resolve a target option for each item and switch them all in one update
+ * Linked items that weren't given follow the item they are linked to
+ */
+async function switchItems(
+    itemIds: string[],
+    pickOption: (item: Item, imageOptions: ImageOption[]) => ImageOption | undefined
+): Promise<void> {
+    if (itemIds.length === 0) {
+        return;
+    }
+
+    const items = await OBR.scene.items.getItems(itemIds);
+    const updates = new Map<string, ImageOption>();
+    for (const item of items) {
+        if (!isImage(item)) continue;
+
+        const imageOptions = await getItemImageOptions(item);
+        if (!imageOptions) continue;
+
+        // Players only step through the variants they can see
+        const option = pickOption(item, await filterVisibleImageOptions(imageOptions));
+        if (option && !isImageOptionActive(item, option)) {
+            updates.set(item.id, option);
+        }
+    }
+
+    await updateItemsWithImageOptions(await expandToLinkedItems(updates), true, await getCurrentActor());
+}
+
+/**
+ * Move each item to its next or previous image option independently
+ */
+export async function cycleImageOptions(itemIds: string[], direction: CycleDirection): Promise<void> {
+    await switchItems(itemIds, (item, imageOptions) =>
+        getCycledImageOption(item, imageOptions, direction)
+    );
+}
+
+/**
+ * Switch each item back to its original image option
+ */
+export async function resetToOriginalImageOption(itemIds: string[]): Promise<void> {
+    await switchItems(itemIds, getOriginalImageOption);
+}
@@ -0,0 +1,37 @@
+import type { ImageOption } from "./helpers";
+
+/** Height of the context menu embed with a single row of variants */
+export const EMBED_MIN_HEIGHT = 124;
+
+/** Tallest the embed grows to, longer lists scroll */
+const EMBED_MAX_HEIGHT = 320;
+
+/** Height of one row of variant thumbnails, including the gap below it */
+const THUMBNAIL_ROW_HEIGHT = 58;
+
+/** Thumbnails per row, matching the grid in styles.css */
+const THUMBNAILS_PER_ROW = 4;
+
+/** Height of the search bar, including its padding */
+const SEARCH_BAR_HEIGHT = 32;
+
+/** Lists with at least this many variants, or any tags, get a search bar */
+const SEARCH_MIN_OPTIONS = 8;
+
+/**
+ * Get the embed height that fits a list of variants and the add buttons
+ * Rows of controls below the grid still scroll, so the height is kept to
+ * what the thumbnails need
+ */
+export function getEmbedHeight(optionCount: number, hasSearch: boolean): number {
+    const rows = Math.ceil((optionCount + 2) / THUMBNAILS_PER_ROW);
+    const height = rows * THUMBNAIL_ROW_HEIGHT + 16 + (hasSearch ? SEARCH_BAR_HEIGHT : 0);
+    return Math.min(EMBED_MAX_HEIGHT, Math.max(EMBED_MIN_HEIGHT, height));
+}
+
+/**
+ * Check if a list of variants is long or tagged enough to need a search bar
+ */
+export function needsSearchBar(imageOptions: ImageOption[]): boolean {
+    return imageOptions.length >= SEARCH_MIN_OPTIONS || imageOptions.some(option => option.tags && option.tags.length > 0);
+}
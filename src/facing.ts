@@ -0,0 +1,156 @@
+import OBR, { isImage, type Image, type Item, type Vector2 } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+import { getItemAnimation } from "./animation";
+
+export type Facing = "LEFT" | "RIGHT" | "UP" | "DOWN";
+
+export const FACINGS: { facing: Facing; label: string }[] = [
+    { facing: "LEFT", label: "Left" },
+    { facing: "RIGHT", label: "Right" },
+    { facing: "UP", label: "Up" },
+    { facing: "DOWN", label: "Down" },
+];
+
+/** How far an item has to move, in grid cells, before it turns to face the movement */
+const MIN_FACING_DISTANCE = 0.5;
+
+/**
+ * Where each auto-facing item was when its facing was last decided
+ * Kept in memory on the GM's client, so a fresh client starts from the current positions
+ */
+const anchorPositions = new Map<string, Vector2>();
+
+/**
+ * Type guard to check if a value is a valid Facing
+ */
+export function isFacing(value: unknown): value is Facing {
+    return FACINGS.some(({ facing }) => facing === value);
+}
+
+/**
+ * Check if an item turns to face the direction it is moved in
+ */
+export function isAutoFacingEnabled(item: Item): boolean {
+    return getItemMetadata(item)?.autoFacing === true;
+}
+
+/**
+ * Turn auto-facing on or off for the given items
+ */
+export async function setItemsAutoFacing(itemIds: string[], autoFacing: boolean): Promise<void> {
+    await OBR.scene.items.updateItems(itemIds, (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({ ...metadata, autoFacing: autoFacing || undefined }));
+        }
+    });
+}
+
+/**
+ * Get the facings to try for a movement, best match first
+ * The axis moved along most comes first, and the other axis is only tried
+ * if the item moved far enough along it too
+ */
+function getFacingPreferences(delta: Vector2, minDistance: number): Facing[] {
+    const horizontal: Facing = delta.x > 0 ? "RIGHT" : "LEFT";
+    const vertical: Facing = delta.y > 0 ? "DOWN" : "UP";
+    const movedHorizontally = Math.abs(delta.x) >= minDistance;
+    const movedVertically = Math.abs(delta.y) >= minDistance;
+
+    if (Math.abs(delta.x) >= Math.abs(delta.y)) {
+        return [...(movedHorizontally ? [horizontal] : []), ...(movedVertically ? [vertical] : [])];
+    }
+    return [...(movedVertically ? [vertical] : []), ...(movedHorizontally ? [horizontal] : [])];
+}
+
+/**
+ * Pick the variant an item should switch to after moving
+ * Only items showing a facing variant are switched, so a manually picked
+ * variant without a facing is left alone
+ */
+async function getFacingOption(item: Image, delta: Vector2, minDistance: number): Promise<ImageOption | undefined> {
+    const imageOptions = await getItemImageOptions(item) ?? [];
+    const current = imageOptions.find(option => option.facing && isImageOptionActive(item, option));
+    if (!current) {
+        return undefined;
+    }
+
+    for (const facing of getFacingPreferences(delta, minDistance)) {
+        if (facing === current.facing) {
+            return undefined;
+        }
+        // Prefer a variant from the same scene state, e.g. keep the night art when turning
+        const candidates = imageOptions.filter(option => option.facing === facing);
+        const option = candidates.find(option => option.sceneState === current.sceneState) ?? candidates[0];
+        if (option) {
+            return option;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Switch moved items with auto-facing to the variant facing the way they moved
+ * Nudges shorter than the minimum distance build up until the item has moved far enough
+ */
+export async function applyAutoFacing(items: Item[]): Promise<void> {
+    const facingItems = items.filter((item): item is Image =>
+        isImage(item) && isAutoFacingEnabled(item) && !getItemAnimation(item)?.playing
+    );
+
+    // Forget items that were deleted or had auto-facing turned off
+    const facingItemIds = new Set(facingItems.map(item => item.id));
+    for (const itemId of anchorPositions.keys()) {
+        if (!facingItemIds.has(itemId)) {
+            anchorPositions.delete(itemId);
+        }
+    }
+    if (facingItems.length === 0) {
+        return;
+    }
+
+    const minDistance = MIN_FACING_DISTANCE * await OBR.scene.grid.getDpi();
+    const updates = new Map<string, ImageOption>();
+    for (const item of facingItems) {
+        const anchor = anchorPositions.get(item.id);
+        if (!anchor) {
+            anchorPositions.set(item.id, { ...item.position });
+            continue;
+        }
+
+        const delta = { x: item.position.x - anchor.x, y: item.position.y - anchor.y };
+        if (Math.hypot(delta.x, delta.y) < minDistance) {
+            continue;
+        }
+
+        anchorPositions.set(item.id, { ...item.position });
+        const option = await getFacingOption(item, delta, minDistance);
+        if (option) {
+            updates.set(item.id, option);
+        }
+    }
+
+    if (updates.size === 0) {
+        return;
+    }
+    // Every move would flood the switch history, so facing switches are not recorded
+    await updateItemsWithImageOptions(updates, false);
+
+    // Switch modes can shift the item, which mustn't count as movement
+    const switchedItems = await OBR.scene.items.getItems([...updates.keys()]);
+    for (const item of switchedItems) {
+        anchorPositions.set(item.id, { ...item.position });
+    }
+}
+
+/**
+ * Forget every anchor position, e.g. when this client stops running automation
+ */
+export function resetAutoFacing(): void {
+    anchorPositions.clear();
+}
@@ -1,5 +1,23 @@
-import OBR, { isImage, type Image } from "@owlbear-rodeo/sdk";
+import OBR, {
+    isImage,
+    type Image,
+    type ImageAssetType,
+    type ImageDownload,
+    type Item,
+    type Permission,
+    type TextContent,
+    type TextItemType,
+} from "@owlbear-rodeo/sdk";
 import { getPluginId } from "./getPluginId";
+import { getItemLibraryId, getLibrary, updateLibraryOptions } from "./library";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+import { recordSwitch } from "./history";
+import { isImageOptionReachable } from "./assets";
+import { isFacing, type Facing } from "./facing";
+import { hasAttachmentChanges, isVariantAttachments, syncAttachments, type VariantAttachments } from "./attachments";
+import { fitToFootprint, getSwitchMode, isSwitchMode, measureFootprint, type SwitchMode } from "./switchModes";
+import { expandToLinkedItems } from "./linkGroups";
+import { appendAuditEntries, describeSwitches, getCurrentActor, recordVariantChanges, type AuditActor } from "./audit";
 
 export function isPlainObject(
     item: unknown
@@ -17,6 +35,58 @@ export async function isPlayerGM(): Promise<boolean> {
     return role === "GM";
 }
 
+/**
+ * Check if the player can add variants to all of the given items
+ * GMs always can, other players need create permission on every item's layer
+ */
+export async function canAddImageOptionsToItems(items: Item[]): Promise<boolean> {
+    if (await isPlayerGM()) {
+        return true;
+    }
+    if (items.length === 0 || !items.every(isImage)) {
+        return false;
+    }
+
+    const layers = new Set(items.map(item => item.layer));
+    for (const layer of layers) {
+        if (!await OBR.player.hasPermission(`${layer}_CREATE` as Permission)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Check if the player can change an item, matching the context menu's UPDATE filter
+ */
+export async function canUpdateItem(item: Item): Promise<boolean> {
+    if (await isPlayerGM()) {
+        return true;
+    }
+    if (!await OBR.player.hasPermission(`${item.layer}_UPDATE` as Permission)) {
+        return false;
+    }
+    if (item.layer === "CHARACTER" && await OBR.player.hasPermission("CHARACTER_OWNER_ONLY")) {
+        return item.createdUserId === OBR.player.id;
+    }
+    return true;
+}
+
+/**
+ * Check if this client should run GM-side automation
+ * When several GMs are connected only the one with the lowest connection id runs it,
+ * so their clients don't fight over the same updates
+ */
+export async function isPrimaryGM(): Promise<boolean> {
+    if (!await isPlayerGM()) {
+        return false;
+    }
+
+    const connectionId = await OBR.player.getConnectionId();
+    const players = await OBR.party.getPlayers();
+    return !players.some(player => player.role === "GM" && player.connectionId < connectionId);
+}
+
 export interface ImageOption {
     id: string;
     url: string;
@@ -27,60 +97,194 @@ export interface ImageOption {
     dpi?: number;
     offset?: { x: number; y: number };
     mime?: string;
+    // Captured token state, only reapplied when present
+    scale?: { x: number; y: number };
+    rotation?: number;
+    text?: TextContent;
+    textItemType?: TextItemType;
+    description?: string;
+    visible?: boolean;
+    locked?: boolean;
+    // Only GMs can see and switch to this variant
+    gmOnly?: boolean;
+    // Scene state this variant belongs to, e.g. "Night"
+    sceneState?: string;
+    // How switching to this variant fits it onto the map, overriding the item's mode
+    switchMode?: SwitchMode;
+    // Direction the art faces, used to switch automatically when the item moves
+    facing?: Facing;
+    // Attached items to show, hide or create while this variant is active
+    attachments?: VariantAttachments;
+    // How likely this variant is to be picked when randomizing, 1 unless set
+    weight?: number;
+    // Free-form labels to find the variant by in the popover's search
+    tags?: string[];
+}
+
+function isVector2(obj: unknown): obj is { x: number; y: number } {
+    return isPlainObject(obj) && typeof obj.x === 'number' && typeof obj.y === 'number';
+}
+
+/**
+ * List the problems that keep an object from being a valid ImageOption
+ * Returns an empty list for a valid option
+ */
+export function getImageOptionErrors(obj: unknown): string[] {
+    if (!isPlainObject(obj)) {
+        return ["not an object"];
+    }
+
+    const errors: string[] = [];
+    const expect = (valid: boolean, message: string) => {
+        if (!valid) errors.push(message);
+    };
+
+    expect(typeof obj.id === 'string', "id must be a string");
+    expect(typeof obj.url === 'string', "url must be a string");
+    expect(typeof obj.width === 'number', "width must be a number");
+    expect(typeof obj.height === 'number', "height must be a number");
+    expect(typeof obj.name === 'string', "name must be a string");
+    // Optional properties
+    expect(obj.dpi === undefined || typeof obj.dpi === 'number', "dpi must be a number");
+    expect(obj.offset === undefined || isVector2(obj.offset), "offset must be an x/y position");
+    expect(obj.mime === undefined || typeof obj.mime === 'string', "mime must be a string");
+    // Captured token state
+    expect(obj.scale === undefined || isVector2(obj.scale), "scale must be an x/y value");
+    expect(obj.rotation === undefined || typeof obj.rotation === 'number', "rotation must be a number");
+    expect(obj.text === undefined || (isPlainObject(obj.text) && typeof obj.text.plainText === 'string'), "text must be a text content object");
+    expect(obj.textItemType === undefined || obj.textItemType === 'LABEL' || obj.textItemType === 'TEXT', "textItemType must be LABEL or TEXT");
+    expect(obj.description === undefined || typeof obj.description === 'string', "description must be a string");
+    expect(obj.visible === undefined || typeof obj.visible === 'boolean', "visible must be a boolean");
+    expect(obj.locked === undefined || typeof obj.locked === 'boolean', "locked must be a boolean");
+    expect(obj.gmOnly === undefined || typeof obj.gmOnly === 'boolean', "gmOnly must be a boolean");
+    expect(obj.sceneState === undefined || typeof obj.sceneState === 'string', "sceneState must be a string");
+    expect(obj.switchMode === undefined || isSwitchMode(obj.switchMode), "switchMode must be a known switch mode");
+    expect(obj.facing === undefined || isFacing(obj.facing), "facing must be LEFT, RIGHT, UP or DOWN");
+    expect(obj.attachments === undefined || isVariantAttachments(obj.attachments), "attachments must be a visibility map and item templates");
+    expect(obj.weight === undefined || (typeof obj.weight === 'number' && obj.weight >= 0), "weight must be a number of at least 0");
+    expect(obj.tags === undefined || (Array.isArray(obj.tags) && obj.tags.every(tag => typeof tag === 'string')), "tags must be a list of strings");
+
+    return errors;
 }
 
 /**
  * Type guard to check if an object is a valid ImageOption
  */
 export function isImageOption(obj: unknown): obj is ImageOption {
+    return getImageOptionErrors(obj).length === 0;
+}
+
+/**
+ * Check if an image option captured token state beyond the image and grid
+ */
+export function hasCapturedState(option: ImageOption): boolean {
     return (
-        isPlainObject(obj) &&
-        typeof obj.id === 'string' &&
-        typeof obj.url === 'string' &&
-        typeof obj.width === 'number' &&
-        typeof obj.height === 'number' &&
-        typeof obj.name === 'string' &&
-        // Optional properties
-        (obj.dpi === undefined || typeof obj.dpi === 'number') &&
-        (obj.offset === undefined || (
-            isPlainObject(obj.offset) &&
-            typeof obj.offset.x === 'number' &&
-            typeof obj.offset.y === 'number'
-        )) &&
-        (obj.mime === undefined || typeof obj.mime === 'string')
+        option.scale !== undefined ||
+        option.rotation !== undefined ||
+        option.text !== undefined ||
+        option.description !== undefined ||
+        option.visible !== undefined ||
+        option.locked !== undefined
     );
 }
 
 /**
- * Get the list of image options from the selected items' metadata
- * Returns a combined list of all unique image options from selected items
+ * Check if an item is currently showing an image option
+ * Options sharing a URL are told apart by their captured scale and rotation
+ * The scale is ignored when switches keep the footprint, since they rescale the token
  */
-export async function getImageOptions(): Promise<ImageOption[]> {
-    const selection = await OBR.player.getSelection();
-    if (!selection || selection.length === 0) {
-        return [];
+export function isImageOptionActive(item: Item, option: ImageOption): boolean {
+    if (!isImage(item) || item.image.url !== option.url) {
+        return false;
+    }
+    if (option.rotation !== undefined && item.rotation !== option.rotation) {
+        return false;
+    }
+    if (option.scale !== undefined && getSwitchMode(item, option) !== "KEEP_FOOTPRINT" &&
+        (item.scale.x !== option.scale.x || item.scale.y !== option.scale.y)) {
+        return false;
     }
+    return true;
+}
 
-    const item = await OBR.scene.items.getItems<Image>([selection[0]]);
-    if (item.length === 0 || !isImage(item[0])) {
-        return [];
+/**
+ * Check if a variant is a video rather than a still image
+ */
+export function isVideoImageOption(option: ImageOption): boolean {
+    return option.mime?.startsWith("video/") === true ||
+        /\.(webm|mp4|mov|avi|mkv|ogv)$/.test(option.url.toLowerCase());
+}
+
+/**
+ * Get the asset type the image picker should open on for an item's layer
+ */
+export function getAssetTypeForLayer(layer: string): ImageAssetType {
+    switch (layer) {
+        case "CHARACTER":
+        case "PROP":
+        case "MOUNT":
+        case "ATTACHMENT":
+        case "NOTE":
+        case "MAP":
+            return layer;
+        default:
+            return "PROP";
     }
+}
 
-    const selectedItem = item[0];
-    const metadata = selectedItem.metadata[getPluginId("metadata")];
+/**
+ * Check if two image options represent the same variant
+ * Options match by id, or by URL when neither captured extra token state
+ */
+export function isSameVariant(a: ImageOption, b: ImageOption): boolean {
+    if (a.id === b.id) {
+        return true;
+    }
+    return !hasCapturedState(a) && !hasCapturedState(b) && a.url === b.url;
+}
 
-    // If metadata exists and has imageOptions, return them
-    if (isPlainObject(metadata) && Array.isArray(metadata.imageOptions)) {
-        const validOptions: ImageOption[] = [];
-        for (const option of metadata.imageOptions) {
-            if (isImageOption(option)) {
-                validOptions.push(option);
+/**
+ * An image option from the selection along with the selected items that have it
+ */
+export interface SharedImageOption {
+    option: ImageOption;
+    itemIds: string[];
+}
+
+/**
+ * Get the union of image options across all selected items
+ * Each entry records which of the selected items have that variant
+ */
+export async function getSharedImageOptions(): Promise<SharedImageOption[]> {
+    const selection = await OBR.player.getSelection();
+    if (!selection || selection.length === 0) {
+        return [];
+    }
+
+    const items = await OBR.scene.items.getItems<Image>(selection);
+    const sharedOptions: SharedImageOption[] = [];
+    for (const item of items) {
+        if (!isImage(item)) continue;
+
+        // If metadata exists and has imageOptions or a library link, use them
+        const imageOptions = await getItemImageOptions(item) ?? await createInitialImageOptions(item);
+        for (const option of imageOptions) {
+            const shared = sharedOptions.find(entry => isSameVariant(entry.option, option));
+            if (!shared) {
+                sharedOptions.push({ option, itemIds: [item.id] });
+            } else if (!shared.itemIds.includes(item.id)) {
+                shared.itemIds.push(item.id);
             }
         }
-        return validOptions;
     }
 
-    // If no metadata exists, create initial metadata with current image as first option
+    return sharedOptions;
+}
+
+/**
+ * Create initial metadata for an item with its current image as the first option
+ */
+async function createInitialImageOptions(selectedItem: Image): Promise<ImageOption[]> {
     const currentImageOption: ImageOption = {
         id: crypto.randomUUID(),
         url: selectedItem.image.url,
@@ -96,12 +300,10 @@ export async function getImageOptions(): Promise<ImageOption[]> {
     await OBR.scene.items.updateItems(
         (updateItem) => updateItem.id === selectedItem.id,
         (items) => {
-            const currentMetadata = items[0].metadata[getPluginId("metadata")];
-            const metadataBase = isPlainObject(currentMetadata) ? currentMetadata : {};
-            items[0].metadata[getPluginId("metadata")] = {
-                ...metadataBase,
+            updateItemMetadata(items[0], (metadata) => ({
+                ...metadata,
                 imageOptions: [currentImageOption]
-            };
+            }));
         }
     );
 
@@ -109,20 +311,120 @@ export async function getImageOptions(): Promise<ImageOption[]> {
 }
 
 /**
- * Add a new image option to the selected items' metadata
- * This function takes an image download object and saves the necessary info
+ * Get the image options stored directly on an item, ignoring any linked library
  */
-export async function addImageOption(imageDownload: any): Promise<void> {
-    console.log("addImageOption called with:", imageDownload);
+export function getItemOwnImageOptions(item: Item): ImageOption[] {
+    return getItemMetadata(item)?.imageOptions ?? [];
+}
 
+/**
+ * Resolve the image options of any item without creating metadata for it
+ * Returns undefined if the item has no image options or library link yet
+ */
+export async function getItemImageOptions(item: Item): Promise<ImageOption[] | undefined> {
+    const metadata = getItemMetadata(item);
+    if (!metadata) {
+        return undefined;
+    }
+    return await mergeLibraryOptions(metadata.libraryId, metadata.imageOptions);
+}
+
+/**
+ * Combine a linked library's options with an item's own options
+ * Library options come first; item options that duplicate a library URL are skipped
+ */
+async function mergeLibraryOptions(libraryId: string | undefined, itemOptions: ImageOption[]): Promise<ImageOption[]> {
+    if (!libraryId) {
+        return itemOptions;
+    }
+
+    const library = await getLibrary(libraryId);
+    if (!library) {
+        return itemOptions;
+    }
+
+    const libraryIds = new Set(library.imageOptions.map(option => option.id));
+    const libraryUrls = new Set(library.imageOptions.map(option => option.url));
+    return [
+        ...library.imageOptions,
+        ...itemOptions.filter(option =>
+            !libraryIds.has(option.id) &&
+            (hasCapturedState(option) || !libraryUrls.has(option.url))
+        ),
+    ];
+}
+
+/**
+ * What happened to a batch of images added from the picker
+ */
+export interface AddImageOptionsResult {
+    added: number;
+    // Names of the images that were already on at least one of the items
+    skippedNames: string[];
+}
+
+/** Local storage key of the player's "copy the current grid" preference */
+const COPY_CURRENT_GRID_KEY = getPluginId("add/copyCurrentGrid");
+
+/** Sorts names the way people count, so "goblin_2" comes before "goblin_10" */
+const compareNaturally = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" }).compare;
+
+/**
+ * Check if added images should use the grid of the image the token shows now
+ * instead of each asset's own grid settings
+ */
+export function getCopyCurrentGrid(): boolean {
+    return localStorage.getItem(COPY_CURRENT_GRID_KEY) === "true";
+}
+
+export function setCopyCurrentGrid(copyCurrentGrid: boolean): void {
+    localStorage.setItem(COPY_CURRENT_GRID_KEY, String(copyCurrentGrid));
+}
+
+/**
+ * Add images picked in the asset picker to the selected items' metadata in one write
+ */
+export async function addImageOptions(
+    imageDownloads: ImageDownload[],
+    copyCurrentGrid = getCopyCurrentGrid()
+): Promise<AddImageOptionsResult> {
     const selection = await OBR.player.getSelection();
     if (!selection || selection.length === 0) {
-        console.log("No selection in addImageOption");
-        return;
+        return { added: 0, skippedNames: [] };
     }
+    return addImageOptionsToItems(selection, imageDownloads, copyCurrentGrid);
+}
+
+/**
+ * Add images picked in the asset picker to the given items' metadata in one write
+ * The new variants are ordered by name, and with copyCurrentGrid set they take the
+ * grid dpi and offset of the first item's current image
+ */
+export async function addImageOptionsToItems(
+    itemIds: string[],
+    imageDownloads: ImageDownload[],
+    copyCurrentGrid = getCopyCurrentGrid()
+): Promise<AddImageOptionsResult> {
+    const [currentItem] = (await OBR.scene.items.getItems<Image>(itemIds)).filter(isImage);
+    const imageOptions = [...imageDownloads]
+        .sort((a, b) => compareNaturally(a.name, b.name))
+        .map(createImageOptionFromDownload)
+        .map(option => copyCurrentGrid && currentItem
+            ? { ...option, dpi: currentItem.grid.dpi, offset: { ...currentItem.grid.offset } }
+            : option);
+
+    const skipped = await saveImageOptionsToItems(itemIds, imageOptions, false);
+    return {
+        added: imageOptions.length - skipped.length,
+        skippedNames: skipped.map(option => option.name),
+    };
+}
 
-    // Create the image option object from the download result structure
-    const imageOption: ImageOption = {
+/**
+ * Build an image option from an image picked with the asset picker
+ */
+export function createImageOptionFromDownload(imageDownload: ImageDownload): ImageOption {
+    return {
         id: crypto.randomUUID(), // Generate unique ID
         url: imageDownload.image.url,
         width: imageDownload.image.width,
@@ -133,131 +435,535 @@ export async function addImageOption(imageDownload: any): Promise<void> {
         offset: imageDownload.grid?.offset ? { ...imageDownload.grid.offset } : undefined,
         mime: imageDownload.image.mime
     };
+}
+
+/**
+ * Add a variant to the given items, setting up items that have no variants yet
+ */
+export async function addImageOptionToItems(itemIds: string[], imageOption: ImageOption): Promise<void> {
+    const items = await OBR.scene.items.getItems<Image>(itemIds);
+    for (const item of items) {
+        if (isImage(item) && !getItemMetadata(item)) {
+            await createInitialImageOptions(item);
+        }
+    }
+    await saveImageOptionsToItems(itemIds, [imageOption], false);
+}
+
+/**
+ * Save image options to the given items' metadata in one write
+ * Items linked to a library get the options through the library instead
+ * Unless allowDuplicateUrl is set, an option is skipped where its URL already exists,
+ * including earlier options of the same batch
+ * Returns the options that were skipped on at least one item
+ */
+async function saveImageOptionsToItems(
+    itemIds: string[],
+    newOptions: ImageOption[],
+    allowDuplicateUrl: boolean
+): Promise<ImageOption[]> {
+    const skipped = new Set<ImageOption>();
+    const addNewOptions = (imageOptions: ImageOption[], added: ImageOption[]) => {
+        const result = [...imageOptions];
+        for (const imageOption of newOptions) {
+            if (allowDuplicateUrl || !result.some(option => option.url === imageOption.url)) {
+                result.push(imageOption);
+                added.push(imageOption);
+            } else {
+                skipped.add(imageOption);
+            }
+        }
+        return result;
+    };
 
-    console.log("Created image option:", imageOption);
+    const selectedItems = await OBR.scene.items.getItems(itemIds);
+    const linkedItemIds = new Set<string>();
+    const libraryIds = new Set<string>();
+    // Only the GM edits libraries, players add to the item's own list
+    const canEditLibraries = await isPlayerGM();
+    for (const item of selectedItems) {
+        const libraryId = getItemLibraryId(item);
+        if (canEditLibraries && libraryId && await getLibrary(libraryId)) {
+            linkedItemIds.add(item.id);
+            libraryIds.add(libraryId);
+        }
+    }
 
-    // Update all selected items with the new image option
+    // Options each item actually got, for the change log
+    const addedOptions = new Map<string, ImageOption[]>();
+    for (const libraryId of libraryIds) {
+        await updateLibraryOptions(libraryId, (imageOptions) => {
+            const added: ImageOption[] = [];
+            const result = addNewOptions(imageOptions, added);
+            selectedItems
+                .filter(item => getItemLibraryId(item) === libraryId)
+                .forEach(item => addedOptions.set(item.id, added));
+            return result;
+        });
+    }
+
+    // Update all other selected items with the new image options
     await OBR.scene.items.updateItems(
-        (item) => selection.includes(item.id) && isImage(item),
+        (item) => itemIds.includes(item.id) && !linkedItemIds.has(item.id) && isImage(item),
         (items) => {
-            console.log("Updating items with new image option, items count:", items.length);
             for (const item of items) {
-                const currentMetadata = item.metadata[getPluginId("metadata")];
-                let imageOptions: ImageOption[] = [];
+                updateItemMetadata(item, (metadata) => {
+                    const added: ImageOption[] = [];
+                    const imageOptions = addNewOptions(metadata.imageOptions, added);
+                    addedOptions.set(item.id, added);
+                    return { ...metadata, imageOptions };
+                });
+            }
+        }
+    );
 
-                // Get existing image options or create new array
-                if (isPlainObject(currentMetadata) && Array.isArray(currentMetadata.imageOptions)) {
-                    imageOptions = [...currentMetadata.imageOptions];
-                }
+    await recordVariantChanges("ADD", selectedItems.flatMap(item =>
+        (addedOptions.get(item.id) ?? []).map(imageOption => ({ item, imageOption }))
+    ));
+    return [...skipped];
+}
 
-                // Add the new option if it doesn't already exist
-                if (!imageOptions.some(option => option.url === imageOption.url)) {
-                    imageOptions.push(imageOption);
-                    console.log("Added new image option, total options now:", imageOptions.length);
-                } else {
-                    console.log("Image option already exists, skipping");
+/**
+ * Apply an update to the image option lists of the given items
+ * Both the items' own lists and their linked libraries are updated,
+ * libraries only when the GM makes the change
+ */
+async function updateImageOptionLists(
+    itemIds: string[],
+    update: (imageOptions: ImageOption[]) => ImageOption[]
+): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const libraryIds = new Set<string>();
+    const canEditLibraries = await isPlayerGM();
+    for (const item of items) {
+        const libraryId = getItemLibraryId(item);
+        if (canEditLibraries && libraryId) {
+            libraryIds.add(libraryId);
+        }
+    }
+
+    for (const libraryId of libraryIds) {
+        await updateLibraryOptions(libraryId, update);
+    }
+
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id) && isImage(item),
+        (items) => {
+            for (const item of items) {
+                if (getItemMetadata(item)) {
+                    updateItemMetadata(item, (metadata) => ({
+                        ...metadata,
+                        imageOptions: update(metadata.imageOptions)
+                    }));
                 }
+            }
+        }
+    );
+}
+
+/**
+ * Remove a variant from the given items
+ * Variants that come from a linked library are removed from the library itself
+ */
+export async function removeImageOption(imageOption: ImageOption, itemIds: string[]): Promise<void> {
+    if (itemIds.length === 0) {
+        return;
+    }
 
-                // Update metadata - ensure we have a valid object to spread
-                const metadataBase = isPlainObject(currentMetadata) ? currentMetadata : {};
-                item.metadata[getPluginId("metadata")] = {
-                    ...metadataBase,
-                    imageOptions
-                };
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.filter(option => !isSameVariant(option, imageOption))
+    );
+    const items = await OBR.scene.items.getItems(itemIds);
+    await recordVariantChanges("REMOVE", items.map(item => ({ item, imageOption })));
+}
+
+/**
+ * Rename a variant on the given items
+ */
+export async function renameImageOption(itemIds: string[], imageOption: ImageOption, name: string): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, name } : option)
+    );
+}
+
+/**
+ * Hide a variant from players on the given items, or show it to everyone again
+ */
+export async function setImageOptionGmOnly(itemIds: string[], imageOption: ImageOption, gmOnly: boolean): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, gmOnly: gmOnly || undefined } : option)
+    );
+}
+
+/**
+ * Tag a variant on the given items with a scene state, or clear the tag
+ */
+export async function setImageOptionSceneState(
+    itemIds: string[],
+    imageOption: ImageOption,
+    sceneState: string | undefined
+): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, sceneState } : option)
+    );
+}
+
+/**
+ * Swap the image of a variant, keeping its id, name, grid settings and captured state
+ * Items showing the old image are switched to the new one
+ */
+export async function replaceImageOptionImage(
+    itemIds: string[],
+    imageOption: ImageOption,
+    imageDownload: ImageDownload
+): Promise<void> {
+    const { url, width, height, mime } = imageDownload.image;
+
+    await OBR.scene.items.updateItems<Image>(
+        (item) => itemIds.includes(item.id) && isImageOptionActive(item, imageOption),
+        (items) => {
+            for (const item of items) {
+                item.image.url = url;
+                item.image.width = width;
+                item.image.height = height;
+                item.image.mime = mime;
             }
         }
     );
 
-    console.log("addImageOption completed");
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, url, width, height, mime } : option)
+    );
 }
 
 /**
- * Update the selected state of the image buttons based on current selection
+ * Set how switching to a variant fits it onto the map, or clear it to use the item's mode
  */
-export async function updateImageButtons(imageOptions: ImageOption[]) {
-    const selection = await OBR.player.getSelection();
-    if (!selection || selection.length === 0) {
-        // Remove all selected states if no selection
-        document.querySelectorAll(".image-button").forEach((element) => {
-            element.classList.remove("selected");
-        });
-        return;
+export async function setImageOptionSwitchMode(
+    itemIds: string[],
+    imageOption: ImageOption,
+    switchMode: SwitchMode | undefined
+): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, switchMode } : option)
+    );
+}
+
+/**
+ * Set the direction a variant's art faces, or clear it
+ */
+export async function setImageOptionFacing(itemIds: string[], imageOption: ImageOption, facing: Facing | undefined): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, facing } : option)
+    );
+}
+
+/**
+ * Set how likely a variant is to be picked when randomizing, or clear it to use the default
+ */
+export async function setImageOptionWeight(itemIds: string[], imageOption: ImageOption, weight: number | undefined): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, weight } : option)
+    );
+}
+
+/**
+ * Set the tags of a variant, or clear them
+ */
+export async function setImageOptionTags(itemIds: string[], imageOption: ImageOption, tags: string[] | undefined): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) =>
+        imageOptions.map(option => isSameVariant(option, imageOption) ? { ...option, tags } : option)
+    );
+}
+
+/**
+ * Check if a variant matches a search, by name or tag
+ * Every word of the search has to match for the variant to be shown
+ */
+export function matchesImageOptionSearch(option: ImageOption, search: string): boolean {
+    const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+    const haystack = [option.name, ...option.tags ?? []].map(text => text.toLowerCase());
+    return words.every(word => haystack.some(text => text.includes(word)));
+}
+
+/**
+ * Filter out the variants the current player isn't allowed to see
+ */
+export async function filterVisibleImageOptions(imageOptions: ImageOption[]): Promise<ImageOption[]> {
+    if (await isPlayerGM()) {
+        return imageOptions;
     }
+    return imageOptions.filter(option => !option.gmOnly);
+}
 
-    const items = await OBR.scene.items.getItems<Image>(selection);
+/**
+ * Move a variant so it sits directly before another one on the given items
+ * Moves it to the end of the list when there is no target
+ */
+export async function moveImageOption(
+    itemIds: string[],
+    imageOption: ImageOption,
+    beforeOption: ImageOption | undefined
+): Promise<void> {
+    await updateImageOptionLists(itemIds, (imageOptions) => {
+        const moving = imageOptions.find(option => isSameVariant(option, imageOption));
+        if (!moving) {
+            return imageOptions;
+        }
 
-    // Remove all previous selected states
-    document.querySelectorAll(".image-button").forEach((element) => {
-        element.classList.remove("selected");
+        const remaining = imageOptions.filter(option => option !== moving);
+        const targetIndex = beforeOption
+            ? remaining.findIndex(option => isSameVariant(option, beforeOption))
+            : -1;
+        if (targetIndex === -1) {
+            return [...remaining, moving];
+        }
+        return [...remaining.slice(0, targetIndex), moving, ...remaining.slice(targetIndex)];
     });
+}
 
-    // Check which image options are currently being used
-    for (const option of imageOptions) {
-        const isSelected = items.some(item => {
-            if (!isImage(item)) return false;
-            return item.image.url === option.url;
-        });
+/**
+ * Get the id of the variant an item uses as its default, if one is set
+ */
+export function getDefaultImageOptionId(item: Item): string | undefined {
+    return getItemMetadata(item)?.defaultOptionId;
+}
 
-        if (isSelected) {
-            document.getElementById(option.id)?.classList.add("selected");
+/**
+ * Mark a variant as the default for the given items, or clear the default
+ * Each item stores the id of its own copy of the variant
+ */
+export async function setDefaultImageOption(itemIds: string[], imageOption: ImageOption | undefined): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const defaults = new Map<string, string>();
+    if (imageOption) {
+        for (const item of items) {
+            const imageOptions = await getItemImageOptions(item) ?? [];
+            const match = imageOptions.find(option => isSameVariant(option, imageOption));
+            if (match) {
+                defaults.set(item.id, match.id);
+            }
         }
     }
+
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id) && isImage(item),
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    defaultOptionId: defaults.get(item.id)
+                }));
+            }
+        }
+    );
 }
 
 /**
  * Switch selected items to use a specific image option
- * Applies image, grid settings, and rotation to maintain proper appearance
+ * Applies image and grid settings, plus any token state the option captured
+ * Only items that have the variant are switched unless addToMissing is set,
+ * in which case the variant is added to the other selected items first
+ * Items linked to a switched item switch to their matching variant too
  */
-export async function updateItemWithImageOption(imageOption: ImageOption): Promise<void> {
+export async function updateItemWithImageOption(imageOption: ImageOption, addToMissing = false): Promise<void> {
     const selection = await OBR.player.getSelection();
     if (!selection || selection.length === 0) {
         return;
     }
 
-    OBR.scene.items.updateItems(
-        (item) => selection.includes(item.id) && isImage(item),
-        (items) => {
-            for (const item of items) {
-                // Cast to any to work around WritableDraft typing limitations
-                const imageItem = item as any;
+    if (imageOption.gmOnly && !await isPlayerGM()) {
+        await OBR.notification.show("Only the GM can switch to that variant", "ERROR");
+        return;
+    }
 
-                // Update the image properties
-                imageItem.image.url = imageOption.url;
-                imageItem.image.width = imageOption.width;
-                imageItem.image.height = imageOption.height;
+    // The image is checked after the switch instead of holding it up,
+    // a token left blank by a broken image is then pointed at the variant menu
+    isImageOptionReachable(imageOption)
+        .then(async (reachable) => {
+            if (!reachable) {
+                await OBR.notification.show(`The image for "${imageOption.name}" can't be loaded, replace it from the variant menu`, "WARNING");
+            }
+        })
+        .catch(error => console.error("Error checking variant image:", error));
+
+    const items = await OBR.scene.items.getItems(selection);
+    const updates = new Map<string, ImageOption>();
+    const missingItemIds: string[] = [];
+    for (const item of items) {
+        if (!isImage(item)) continue;
+
+        // Use each item's own copy of the variant so its grid settings are kept
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        const match = imageOptions.find(option => isSameVariant(option, imageOption));
+        if (match) {
+            updates.set(item.id, match);
+        } else if (addToMissing) {
+            missingItemIds.push(item.id);
+            updates.set(item.id, imageOption);
+        }
+    }
 
-                if (imageOption.mime) {
-                    imageItem.image.mime = imageOption.mime; // Set mime type if available
-                }
+    if (missingItemIds.length > 0) {
+        await saveImageOptionsToItems(missingItemIds, [imageOption], false);
+    }
 
-                // Apply grid settings if they exist
-                if (imageOption.dpi !== undefined || imageOption.offset !== undefined) {
-                    // Initialize grid object if it doesn't exist
-                    if (!imageItem.grid) {
-                        imageItem.grid = {};
-                    }
+    // Linked tokens follow along, even when they aren't selected
+    await updateItemsWithImageOptions(await expandToLinkedItems(updates), true, await getCurrentActor());
+}
 
-                    // Apply DPI if specified
-                    if (imageOption.dpi !== undefined) {
-                        imageItem.grid.dpi = imageOption.dpi;
-                    }
+/**
+ * Switch several items to their own image option in a single update
+ * The map is keyed by item id
+ * The items' previous states are recorded as one undoable step unless recordHistory is false
+ * Switches made by a player are added to the change log under the given actor,
+ * automatic ones like rules and animations leave it out
+ */
+export async function updateItemsWithImageOptions(
+    imageOptions: Map<string, ImageOption>,
+    recordHistory = true,
+    actor?: AuditActor
+): Promise<void> {
+    if (imageOptions.size === 0) {
+        return;
+    }
 
-                    // Apply offset if specified
-                    if (imageOption.offset !== undefined) {
-                        imageItem.grid.offset = { ...imageOption.offset };
-                    }
+    // Described up front while the items still show their old variants
+    const auditEntries = actor ? await describeSwitches(imageOptions, actor) : [];
 
-                }
+    const previousStates = new Map<string, ImageOption>();
+    if (recordHistory) {
+        const items = await OBR.scene.items.getItems([...imageOptions.keys()]);
+        for (const item of items) {
+            if (isImage(item)) {
+                previousStates.set(item.id, captureImageState(item, item.name));
+            }
+        }
+    }
+    const switchId = crypto.randomUUID();
+    const sceneDpi = await OBR.scene.grid.getDpi();
+    const attachmentItemIds: string[] = [];
 
-                // Update the name
-                item.name = imageOption.name;
+    await OBR.scene.items.updateItems<Image>(
+        (item) => imageOptions.has(item.id) && isImage(item),
+        (items) => {
+            for (const item of items) {
+                const imageOption = imageOptions.get(item.id);
+                if (imageOption) {
+                    const previousState = previousStates.get(item.id);
+                    if (previousState) {
+                        recordSwitch(item, switchId, previousState);
+                    }
+                    if (hasAttachmentChanges(item, imageOption)) {
+                        attachmentItemIds.push(item.id);
+                    }
+                    // Measure before switching so the new image can be fitted to the old one
+                    const switchMode = getSwitchMode(item, imageOption);
+                    const footprint = measureFootprint(item, sceneDpi);
+                    applyImageOption(item, imageOption);
+                    fitToFootprint(item, footprint, switchMode, sceneDpi);
+                }
             }
         });
+
+    // Undo the attachment changes of the old variants and apply the new ones
+    if (attachmentItemIds.length > 0) {
+        await syncAttachments(attachmentItemIds);
+    }
+    await appendAuditEntries(auditEntries);
+}
+
+/**
+ * Capture everything a switch can change on an image as an image option
+ */
+export function captureImageState(item: Image, name: string): ImageOption {
+    return {
+        id: crypto.randomUUID(),
+        url: item.image.url,
+        width: item.image.width,
+        height: item.image.height,
+        name,
+        dpi: item.grid?.dpi,
+        offset: item.grid?.offset ? { ...item.grid.offset } : undefined,
+        mime: item.image.mime,
+        scale: { ...item.scale },
+        rotation: item.rotation,
+        text: structuredClone(item.text),
+        textItemType: item.textItemType,
+        description: item.description ?? "",
+        visible: item.visible,
+        locked: item.locked,
+    };
+}
+
+/**
+ * Write an image option onto an item draft
+ */
+export function applyImageOption(item: Item, imageOption: ImageOption): void {
+    // Cast to any to work around WritableDraft typing limitations
+    const imageItem = item as any;
+
+    // Update the image properties
+    imageItem.image.url = imageOption.url;
+    imageItem.image.width = imageOption.width;
+    imageItem.image.height = imageOption.height;
+
+    if (imageOption.mime) {
+        imageItem.image.mime = imageOption.mime; // Set mime type if available
+    }
+
+    // Apply grid settings if they exist
+    if (imageOption.dpi !== undefined || imageOption.offset !== undefined) {
+        // Initialize grid object if it doesn't exist
+        if (!imageItem.grid) {
+            imageItem.grid = {};
+        }
+
+        // Apply DPI if specified
+        if (imageOption.dpi !== undefined) {
+            imageItem.grid.dpi = imageOption.dpi;
+        }
+
+        // Apply offset if specified
+        if (imageOption.offset !== undefined) {
+            imageItem.grid.offset = { ...imageOption.offset };
+        }
+
+    }
+
+    // Apply captured token state if it exists
+    if (imageOption.scale !== undefined) {
+        item.scale = { ...imageOption.scale };
+    }
+    if (imageOption.rotation !== undefined) {
+        item.rotation = imageOption.rotation;
+    }
+    if (imageOption.text !== undefined) {
+        imageItem.text = structuredClone(imageOption.text);
+    }
+    if (imageOption.textItemType !== undefined) {
+        imageItem.textItemType = imageOption.textItemType;
+    }
+    if (imageOption.description !== undefined) {
+        item.description = imageOption.description;
+    }
+    if (imageOption.visible !== undefined) {
+        item.visible = imageOption.visible;
+    }
+    if (imageOption.locked !== undefined) {
+        item.locked = imageOption.locked;
+    }
+
+    // Update the name, GM-only variants keep the current one so players can't read theirs
+    if (!imageOption.gmOnly) {
+        item.name = imageOption.name;
+    }
 }
 
 /**
  * Save the current state of the selected image as a new image option
- * This captures the current rotation and grid settings
+ * This captures the image, grid settings, scale, rotation, text label,
+ * description, visibility and locked state
  */
 export async function saveCurrentImageState(customName?: string): Promise<void> {
     const selection = await OBR.player.getSelection();
@@ -273,40 +979,8 @@ export async function saveCurrentImageState(customName?: string): Promise<void>
     const selectedItem = items[0];
 
     // Create image option from current state
-    const imageOption: ImageOption = {
-        id: crypto.randomUUID(),
-        url: selectedItem.image.url,
-        width: selectedItem.image.width,
-        height: selectedItem.image.height,
-        name: customName || `${selectedItem.name} (Current State)`,
-        dpi: selectedItem.grid?.dpi,
-        offset: selectedItem.grid?.offset ? { ...selectedItem.grid.offset } : undefined,
-        mime: selectedItem.image.mime
-    };
-
-    // Add this state to the metadata
-    await OBR.scene.items.updateItems(
-        (item) => selection.includes(item.id) && isImage(item),
-        (items) => {
-            for (const item of items) {
-                const currentMetadata = item.metadata[getPluginId("metadata")];
-                let imageOptions: ImageOption[] = [];
-
-                // Get existing image options or create new array
-                if (isPlainObject(currentMetadata) && Array.isArray(currentMetadata.imageOptions)) {
-                    imageOptions = [...currentMetadata.imageOptions];
-                }
-
-                // Add the new option (allow duplicates of same URL with different states)
-                imageOptions.push(imageOption);
+    const imageOption = captureImageState(selectedItem, customName || `${selectedItem.name} (Current State)`);
 
-                // Update metadata
-                const metadataBase = isPlainObject(currentMetadata) ? currentMetadata : {};
-                item.metadata[getPluginId("metadata")] = {
-                    ...metadataBase,
-                    imageOptions
-                };
-            }
-        }
-    );
-}
\ No newline at end of file
+    // Add this state to the metadata (allow duplicates of same URL with different states)
+    await saveImageOptionsToItems(selection, [imageOption], true);
+}
@@ -0,0 +1,195 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    applyImageOption,
+    captureImageState,
+    getItemImageOptions,
+    isImageOption,
+    isPlainObject,
+    isPlayerGM,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+import { syncAttachments } from "./attachments";
+import { appendAuditEntries, describeSwitches, getCurrentActor, type AuditEntry } from "./audit";
+
+/** How many switches are remembered per item */
+export const MAX_HISTORY_LENGTH = 10;
+
+/**
+ * The state of an item before one of its switches
+ * Items switched together share a switch id so they are undone together
+ */
+export interface SwitchHistoryEntry {
+    switchId: string;
+    timestamp: number;
+    state: ImageOption;
+}
+
+/**
+ * Type guard to check if an object is a valid SwitchHistoryEntry
+ */
+export function isSwitchHistoryEntry(obj: unknown): obj is SwitchHistoryEntry {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.switchId === 'string' &&
+        typeof obj.timestamp === 'number' &&
+        isImageOption(obj.state)
+    );
+}
+
+/**
+ * Get an item's switch history, oldest first
+ */
+export function getItemHistory(item: Item): SwitchHistoryEntry[] {
+    return getItemMetadata(item)?.history ?? [];
+}
+
+function getLastEntry(item: Item): SwitchHistoryEntry | undefined {
+    const history = getItemHistory(item);
+    return history[history.length - 1];
+}
+
+/**
+ * Push the state an item had before a switch onto its history
+ * Called on an item draft, the oldest entries are dropped past the limit
+ */
+export function recordSwitch(item: Item, switchId: string, previousState: ImageOption): void {
+    updateItemMetadata(item, (metadata) => ({
+        ...metadata,
+        history: [
+            ...metadata.history ?? [],
+            { switchId, timestamp: Date.now(), state: previousState }
+        ].slice(-MAX_HISTORY_LENGTH)
+    }));
+}
+
+/**
+ * Check if any of the given items has a switch to undo
+ */
+export function hasSwitchHistory(items: Item[]): boolean {
+    return items.some(item => getItemHistory(item).length > 0);
+}
+
+/**
+ * Check if restoring these states would show players a variant hidden from them
+ */
+async function revealsSecretVariant(items: Item[], getState: (item: Item) => ImageOption | undefined): Promise<boolean> {
+    if (await isPlayerGM()) {
+        return false;
+    }
+    for (const item of items) {
+        const state = getState(item);
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        if (state && imageOptions.some(option => option.gmOnly && option.url === state.url)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Describe restoring each item's last history entry for the change log
+ */
+async function describeHistorySwitches(items: Item[]): Promise<AuditEntry[]> {
+    const states = new Map<string, ImageOption>();
+    for (const item of items) {
+        const entry = getLastEntry(item);
+        if (entry) {
+            states.set(item.id, entry.state);
+        }
+    }
+    return describeSwitches(states, await getCurrentActor());
+}
+
+/**
+ * Undo the most recent switch involving any of the given items
+ * Every item switched in that same step is restored with it, selected or not
+ * Returns false if there was nothing to undo
+ */
+export async function undoLastSwitch(itemIds: string[]): Promise<boolean> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const latest = items
+        .map(getLastEntry)
+        .filter((entry): entry is SwitchHistoryEntry => entry !== undefined)
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (!latest) {
+        return false;
+    }
+
+    const switchedItems = await OBR.scene.items.getItems(
+        (item) => isImage(item) && getLastEntry(item)?.switchId === latest.switchId
+    );
+    if (await revealsSecretVariant(switchedItems, item => getLastEntry(item)?.state)) {
+        await OBR.notification.show("Only the GM can undo back to that image", "ERROR");
+        return false;
+    }
+
+    const switchedIds = switchedItems.map(item => item.id);
+    const auditEntries = await describeHistorySwitches(switchedItems);
+    await OBR.scene.items.updateItems(
+        (item) => switchedIds.includes(item.id),
+        (items) => {
+            for (const item of items) {
+                const entry = getLastEntry(item);
+                if (!entry) continue;
+
+                applyImageOption(item, entry.state);
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    // Drop the list once empty so the context menu entries hide again
+                    history: metadata.history && metadata.history.length > 1
+                        ? metadata.history.slice(0, -1)
+                        : undefined
+                }));
+            }
+        }
+    );
+    await syncAttachments(switchedIds);
+    await appendAuditEntries(auditEntries);
+    return true;
+}
+
+/**
+ * Switch each item back to the state it had before its last switch
+ * Unlike undo this is itself a switch, so reverting twice swaps back again
+ */
+export async function revertToPreviousState(itemIds: string[]): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const currentStates = new Map<string, ImageOption>();
+    for (const item of items) {
+        if (isImage(item) && getLastEntry(item)) {
+            currentStates.set(item.id, captureImageState(item, item.name));
+        }
+    }
+    if (currentStates.size === 0) {
+        return;
+    }
+    if (await revealsSecretVariant(items, item => getLastEntry(item)?.state)) {
+        await OBR.notification.show("Only the GM can revert to that image", "ERROR");
+        return;
+    }
+
+    const auditEntries = await describeHistorySwitches(items.filter(item => currentStates.has(item.id)));
+    const switchId = crypto.randomUUID();
+    await OBR.scene.items.updateItems(
+        (item) => currentStates.has(item.id),
+        (items) => {
+            for (const item of items) {
+                const entry = getLastEntry(item);
+                const currentState = currentStates.get(item.id);
+                if (!entry || !currentState) continue;
+
+                applyImageOption(item, entry.state);
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    history: [
+                        ...metadata.history?.slice(0, -1) ?? [],
+                        { switchId, timestamp: Date.now(), state: currentState }
+                    ]
+                }));
+            }
+        }
+    );
+    await syncAttachments([...currentStates.keys()]);
+    await appendAuditEntries(auditEntries);
+}
@@ -0,0 +1,195 @@
+import OBR, { type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import { getImageOptionErrors, isImageOption, isPlainObject, isPlayerGM, type ImageOption } from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+
+/**
+ * A named set of image options stored in the scene metadata.
+ * Any number of items can reference a library by id so that editing the
+ * library updates the variants of every linked item at once.
+ */
+export interface VariantLibrary {
+    id: string;
+    name: string;
+    imageOptions: ImageOption[];
+}
+
+const LIBRARIES_KEY = getPluginId("libraries");
+
+/**
+ * Type guard to check if an object is a valid VariantLibrary
+ * Invalid image options inside the library are tolerated, skipped on read and kept on write
+ */
+function isVariantLibrary(obj: unknown): obj is VariantLibrary {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.id === 'string' &&
+        typeof obj.name === 'string' &&
+        Array.isArray(obj.imageOptions)
+    );
+}
+
+/**
+ * Get all variant libraries saved in the current scene
+ */
+export async function getLibraries(): Promise<VariantLibrary[]> {
+    const metadata = await OBR.scene.getMetadata();
+    const libraries = metadata[LIBRARIES_KEY];
+    if (!Array.isArray(libraries)) {
+        return [];
+    }
+
+    return libraries.filter(isVariantLibrary).map((library) => ({
+        ...library,
+        imageOptions: library.imageOptions.filter(isImageOption),
+    }));
+}
+
+/**
+ * List the stored libraries and library variants that fail validation, prefixed with the library name
+ * They are skipped on read but kept in the scene, so a fix in a later version can still use them
+ */
+export async function findLibraryProblems(): Promise<string[]> {
+    const metadata = await OBR.scene.getMetadata();
+    const libraries = metadata[LIBRARIES_KEY];
+    if (!Array.isArray(libraries)) {
+        return [];
+    }
+
+    const problems: string[] = [];
+    libraries.forEach((library, index) => {
+        if (!isVariantLibrary(library)) {
+            problems.push(`library ${index + 1}: not a valid library`);
+            return;
+        }
+        library.imageOptions.forEach((option, optionIndex) => {
+            const errors = getImageOptionErrors(option);
+            if (errors.length > 0) {
+                problems.push(`${library.name}: image option ${optionIndex + 1} skipped: ${errors.join(", ")}`);
+            }
+        });
+    });
+    return problems;
+}
+
+/**
+ * Get a single variant library by id
+ */
+export async function getLibrary(libraryId: string): Promise<VariantLibrary | undefined> {
+    const libraries = await getLibraries();
+    return libraries.find(library => library.id === libraryId);
+}
+
+/**
+ * Subscribe to changes of the scene's libraries
+ * Other scene metadata changes are ignored
+ */
+export function onLibrariesChange(callback: () => void): () => void {
+    let lastLibraries: string | undefined;
+    return OBR.scene.onMetadataChange((metadata) => {
+        const libraries = JSON.stringify(metadata[LIBRARIES_KEY] ?? null);
+        if (libraries !== lastLibraries) {
+            callback();
+        }
+        lastLibraries = libraries;
+    });
+}
+
+/**
+ * Replace all libraries in the scene
+ * Libraries are shared by every linked item, so only the GM can change them
+ * Stored entries that getLibraries skipped as invalid are written back untouched,
+ * invalid variants stay with their library unless it was deleted
+ */
+export async function setLibraries(libraries: VariantLibrary[]): Promise<void> {
+    if (!await isPlayerGM()) {
+        throw new Error("Only the GM can change scene libraries");
+    }
+
+    const metadata = await OBR.scene.getMetadata();
+    const stored: unknown[] = Array.isArray(metadata[LIBRARIES_KEY]) ? metadata[LIBRARIES_KEY] : [];
+    const invalidLibraries = stored.filter(library => !isVariantLibrary(library));
+    const invalidOptions = new Map(stored
+        .filter(isVariantLibrary)
+        .map(library => [library.id, library.imageOptions.filter(option => !isImageOption(option))]));
+
+    await OBR.scene.setMetadata({
+        [LIBRARIES_KEY]: [
+            ...libraries.map(library => ({
+                ...library,
+                imageOptions: [...library.imageOptions, ...invalidOptions.get(library.id) ?? []],
+            })),
+            ...invalidLibraries,
+        ],
+    });
+}
+
+/**
+ * Save a set of image options as a new named library
+ * Returns the created library so callers can link items to it
+ */
+export async function createLibrary(name: string, imageOptions: ImageOption[]): Promise<VariantLibrary> {
+    const library: VariantLibrary = {
+        id: crypto.randomUUID(),
+        name,
+        imageOptions: imageOptions.map(option => ({ ...option })),
+    };
+
+    const libraries = await getLibraries();
+    await setLibraries([...libraries, library]);
+    return library;
+}
+
+/**
+ * Apply an update to the image options of a library
+ */
+export async function updateLibraryOptions(
+    libraryId: string,
+    update: (imageOptions: ImageOption[]) => ImageOption[]
+): Promise<void> {
+    const libraries = await getLibraries();
+    await setLibraries(libraries.map(library =>
+        library.id === libraryId
+            ? { ...library, imageOptions: update(library.imageOptions) }
+            : library
+    ));
+}
+
+/**
+ * Delete a library from the scene and unlink every item that referenced it
+ */
+export async function deleteLibrary(libraryId: string): Promise<void> {
+    const libraries = await getLibraries();
+    await setLibraries(libraries.filter(library => library.id !== libraryId));
+
+    await OBR.scene.items.updateItems(
+        (item) => getItemLibraryId(item) === libraryId,
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({ ...metadata, libraryId: undefined }));
+            }
+        }
+    );
+}
+
+/**
+ * Get the library id an item is linked to, if any
+ */
+export function getItemLibraryId(item: Item): string | undefined {
+    return getItemMetadata(item)?.libraryId;
+}
+
+/**
+ * Link or unlink the given items to a library
+ * Pass undefined as the library id to remove the link
+ */
+export async function setItemsLibrary(itemIds: string[], libraryId: string | undefined): Promise<void> {
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id),
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({ ...metadata, libraryId }));
+            }
+        }
+    );
+}
@@ -0,0 +1,237 @@
+import OBR, { isImage, type Image, type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    isPlainObject,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, METADATA_KEY, updateItemMetadata } from "./metadata";
+
+/**
+ * A group of items that always show the same variant
+ * Groups that reach across scenes keep their last variant in the room metadata,
+ * and members in other scenes catch up when their scene is opened
+ */
+export interface LinkGroup {
+    id: string;
+    acrossScenes?: boolean;
+}
+
+/**
+ * The last variant of each cross-scene group, stored in the room metadata
+ * Names are kept as well so members whose variant ids differ can still match
+ */
+interface RoomGroupSwitch {
+    optionId: string;
+    optionName: string;
+}
+
+const ROOM_GROUPS_KEY = getPluginId("linkGroups");
+
+/**
+ * Type guard to check if an object is a valid LinkGroup
+ */
+export function isLinkGroup(obj: unknown): obj is LinkGroup {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.id === 'string' &&
+        (obj.acrossScenes === undefined || typeof obj.acrossScenes === 'boolean')
+    );
+}
+
+function isRoomGroupSwitch(obj: unknown): obj is RoomGroupSwitch {
+    return isPlainObject(obj) && typeof obj.optionId === 'string' && typeof obj.optionName === 'string';
+}
+
+/**
+ * Get the group an item is linked into, if any
+ */
+export function getItemLinkGroup(item: Item): LinkGroup | undefined {
+    return getItemMetadata(item)?.linkGroup;
+}
+
+/**
+ * Get every item in the scene that is linked into a group
+ */
+async function getLinkedItems(): Promise<Image[]> {
+    return OBR.scene.items.getItems<Image>((item) =>
+        isImage(item) && isPlainObject(item.metadata[METADATA_KEY]) && getItemLinkGroup(item) !== undefined
+    );
+}
+
+/**
+ * Link the given items so they always switch together
+ * Items already in a group pull the others into it, otherwise a new group is made
+ */
+export async function linkItems(itemIds: string[]): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const existing = items.map(getItemLinkGroup).find(group => group !== undefined);
+    const linkGroup: LinkGroup = existing ?? { id: crypto.randomUUID() };
+
+    await OBR.scene.items.updateItems(itemIds, (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({ ...metadata, linkGroup }));
+        }
+    });
+}
+
+/**
+ * Remove the given items from their groups
+ * Groups left without members here stop being remembered in the room metadata
+ */
+export async function unlinkItems(itemIds: string[]): Promise<void> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const groupIds = new Set(items.map(item => getItemLinkGroup(item)?.id).filter(id => id !== undefined));
+
+    await OBR.scene.items.updateItems(itemIds, (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({ ...metadata, linkGroup: undefined }));
+        }
+    });
+
+    const emptyGroupIds: string[] = [];
+    for (const groupId of groupIds) {
+        if (await countLinkGroupMembers(groupId) === 0) {
+            emptyGroupIds.push(groupId);
+        }
+    }
+    await forgetRoomGroups(emptyGroupIds);
+}
+
+/**
+ * Set whether a group also switches its members in the room's other scenes
+ */
+export async function setLinkGroupAcrossScenes(groupId: string, acrossScenes: boolean): Promise<void> {
+    const members = await getLinkedItems();
+    const memberIds = members.filter(item => getItemLinkGroup(item)?.id === groupId).map(item => item.id);
+    await OBR.scene.items.updateItems(memberIds, (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({
+                ...metadata,
+                linkGroup: { id: groupId, acrossScenes: acrossScenes || undefined },
+            }));
+        }
+    });
+    if (!acrossScenes) {
+        await forgetRoomGroups([groupId]);
+    }
+}
+
+/**
+ * Count the members of a group in the current scene
+ */
+export async function countLinkGroupMembers(groupId: string): Promise<number> {
+    const members = await getLinkedItems();
+    return members.filter(item => getItemLinkGroup(item)?.id === groupId).length;
+}
+
+/**
+ * Find a member's copy of a variant, by id and otherwise by name
+ */
+async function findMatchingOption(item: Image, optionId: string, optionName: string): Promise<ImageOption | undefined> {
+    const imageOptions = await getItemImageOptions(item) ?? [];
+    return imageOptions.find(option => option.id === optionId) ??
+        imageOptions.find(option => option.name === optionName);
+}
+
+/**
+ * Add the other members of any group being switched to a batch of switches
+ * Members that are switched in the batch themselves keep their own variant,
+ * and groups that reach across scenes remember the variant for the other scenes
+ */
+export async function expandToLinkedItems(imageOptions: Map<string, ImageOption>): Promise<Map<string, ImageOption>> {
+    const linkedItems = await getLinkedItems();
+    if (linkedItems.length === 0) {
+        return imageOptions;
+    }
+
+    const groupSwitches = new Map<string, ImageOption>();
+    for (const item of linkedItems) {
+        const option = imageOptions.get(item.id);
+        const group = getItemLinkGroup(item);
+        if (option && group && !groupSwitches.has(group.id)) {
+            groupSwitches.set(group.id, option);
+        }
+    }
+    if (groupSwitches.size === 0) {
+        return imageOptions;
+    }
+
+    const expanded = new Map(imageOptions);
+    for (const item of linkedItems) {
+        const groupOption = groupSwitches.get(getItemLinkGroup(item)!.id);
+        if (!groupOption || expanded.has(item.id)) continue;
+
+        const option = await findMatchingOption(item, groupOption.id, groupOption.name);
+        if (option && !isImageOptionActive(item, option)) {
+            expanded.set(item.id, option);
+        }
+    }
+
+    await recordRoomGroupSwitches(linkedItems, groupSwitches);
+    return expanded;
+}
+
+/**
+ * Remember the variant of each switched cross-scene group in the room metadata
+ */
+async function recordRoomGroupSwitches(linkedItems: Image[], groupSwitches: Map<string, ImageOption>): Promise<void> {
+    const crossSceneGroupIds = new Set(linkedItems
+        .map(getItemLinkGroup)
+        .filter(group => group?.acrossScenes)
+        .map(group => group!.id));
+    const switches = [...groupSwitches].filter(([groupId]) => crossSceneGroupIds.has(groupId));
+    if (switches.length === 0) {
+        return;
+    }
+
+    const metadata = await OBR.room.getMetadata();
+    const roomGroups = isPlainObject(metadata[ROOM_GROUPS_KEY]) ? metadata[ROOM_GROUPS_KEY] : {};
+    await OBR.room.setMetadata({
+        [ROOM_GROUPS_KEY]: {
+            ...roomGroups,
+            ...Object.fromEntries(switches.map(([groupId, option]) => [groupId, { optionId: option.id, optionName: option.name }])),
+        },
+    });
+}
+
+/**
+ * Drop groups from the room metadata, which is small and shared with other extensions
+ */
+async function forgetRoomGroups(groupIds: string[]): Promise<void> {
+    const metadata = await OBR.room.getMetadata();
+    const roomGroups = metadata[ROOM_GROUPS_KEY];
+    if (!isPlainObject(roomGroups) || !groupIds.some(groupId => groupId in roomGroups)) {
+        return;
+    }
+
+    const remaining = Object.fromEntries(Object.entries(roomGroups).filter(([groupId]) => !groupIds.includes(groupId)));
+    await OBR.room.setMetadata({ [ROOM_GROUPS_KEY]: remaining });
+}
+
+/**
+ * Switch members of cross-scene groups to the variant their group last switched to
+ * Called when a scene is opened, since other scenes can't be changed while closed
+ */
+export async function syncLinkGroupsFromRoom(): Promise<void> {
+    const metadata = await OBR.room.getMetadata();
+    const roomGroups = metadata[ROOM_GROUPS_KEY];
+    if (!isPlainObject(roomGroups)) {
+        return;
+    }
+
+    const updates = new Map<string, ImageOption>();
+    for (const item of await getLinkedItems()) {
+        const group = getItemLinkGroup(item);
+        const groupSwitch = group?.acrossScenes ? roomGroups[group.id] : undefined;
+        if (!isRoomGroupSwitch(groupSwitch)) continue;
+
+        const option = await findMatchingOption(item, groupSwitch.optionId, groupSwitch.optionName);
+        if (option && !isImageOptionActive(item, option)) {
+            updates.set(item.id, option);
+        }
+    }
+    await updateItemsWithImageOptions(updates, false);
+}
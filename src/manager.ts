@@ -0,0 +1,118 @@
+import OBR, { isImage, type Image, type Item } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getLibrary } from "./library";
+import { clearItemMetadata, getItemMetadata, METADATA_KEY } from "./metadata";
+import { getCurrentActor } from "./audit";
+
+/**
+ * An item in the scene that uses Changr, as listed in the manager
+ */
+export interface ManagedItem {
+    id: string;
+    name: string;
+    layer: string;
+    url: string;
+    imageOptions: ImageOption[];
+    // The variant the item is showing, undefined when its image isn't a saved variant
+    activeOption?: ImageOption;
+}
+
+/**
+ * List every image in the scene that has variants, sorted by name
+ */
+export async function getManagedItems(): Promise<ManagedItem[]> {
+    const items = await OBR.scene.items.getItems<Image>((item) => isImage(item) && getItemMetadata(item) !== undefined);
+    const managed: ManagedItem[] = [];
+    for (const item of items) {
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        if (imageOptions.length === 0) continue;
+
+        managed.push({
+            id: item.id,
+            name: item.name,
+            layer: item.layer,
+            url: item.image.url,
+            imageOptions,
+            activeOption: imageOptions.find(option => isImageOptionActive(item, option)),
+        });
+    }
+    return managed.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Check if an item's Changr metadata no longer does anything
+ * That is metadata on a non-image item, or with no variants and no existing library
+ */
+async function isOrphaned(item: Item): Promise<boolean> {
+    if (!isImage(item)) {
+        return true;
+    }
+    const metadata = getItemMetadata(item);
+    if (!metadata || metadata.imageOptions.length > 0) {
+        return false;
+    }
+    return !metadata.libraryId || !await getLibrary(metadata.libraryId);
+}
+
+/**
+ * Get the ids of items whose Changr metadata is orphaned
+ */
+export async function getOrphanedItemIds(): Promise<string[]> {
+    const items = await OBR.scene.items.getItems((item) => item.metadata[METADATA_KEY] !== undefined);
+    const orphanedIds: string[] = [];
+    for (const item of items) {
+        if (await isOrphaned(item)) {
+            orphanedIds.push(item.id);
+        }
+    }
+    return orphanedIds;
+}
+
+/**
+ * Remove orphaned Changr metadata from the scene
+ * Returns the number of items cleaned up
+ */
+export async function clearOrphanedMetadata(): Promise<number> {
+    const orphanedIds = await getOrphanedItemIds();
+    if (orphanedIds.length > 0) {
+        await OBR.scene.items.updateItems(orphanedIds, (items) => {
+            for (const item of items) {
+                clearItemMetadata(item);
+            }
+        });
+    }
+    return orphanedIds.length;
+}
+
+/**
+ * Switch the given items to their variant with a matching name, in one update
+ * Returns the number of items that had no such variant
+ */
+export async function switchItemsToVariantName(items: ManagedItem[], name: string): Promise<number> {
+    const updates = new Map<string, ImageOption>();
+    let missing = 0;
+    for (const item of items) {
+        const option = item.imageOptions.find(option => option.name === name);
+        if (!option) {
+            missing++;
+        } else if (option.id !== item.activeOption?.id) {
+            updates.set(item.id, option);
+        }
+    }
+    await updateItemsWithImageOptions(updates, true, await getCurrentActor());
+    return missing;
+}
+
+/**
+ * Select an item and move the view to it
+ */
+export async function focusItem(itemId: string): Promise<void> {
+    await OBR.player.select([itemId]);
+    const bounds = await OBR.scene.items.getItemBounds([itemId]);
+    await OBR.viewport.animateToBounds(bounds);
+}
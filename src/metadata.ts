@@ -0,0 +1,264 @@
+import OBR, { type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import { getImageOptionErrors, isPlainObject, type ImageOption } from "./helpers";
+import { isVariantRule, type VariantRule } from "./rules";
+import { isVariantAnimation, type VariantAnimation } from "./animation";
+import { isSwitchHistoryEntry, type SwitchHistoryEntry } from "./history";
+import { isSwitchMode, type SwitchMode } from "./switchModes";
+import { isAttachmentState, type AttachmentState } from "./attachments";
+import { isLinkGroup, type LinkGroup } from "./linkGroups";
+
+/** The key Changr stores its data under in item metadata */
+export const METADATA_KEY = getPluginId("metadata");
+
+/**
+ * Current schema version of the item metadata
+ * Bump this and add a migration whenever the stored layout changes
+ */
+export const METADATA_VERSION = 2;
+
+/**
+ * Everything Changr stores on an item
+ */
+export interface ItemMetadata {
+    version: number;
+    imageOptions: ImageOption[];
+    libraryId?: string;
+    defaultOptionId?: string;
+    rules?: VariantRule[];
+    activeRuleId?: string;
+    animation?: VariantAnimation;
+    history?: SwitchHistoryEntry[];
+    switchMode?: SwitchMode;
+    autoFacing?: boolean;
+    attachmentState?: AttachmentState;
+    linkGroup?: LinkGroup;
+}
+
+/** Fields owned by this version of the schema, anything else is kept untouched on write */
+const KNOWN_KEYS: (keyof ItemMetadata)[] = [
+    "version",
+    "imageOptions",
+    "libraryId",
+    "defaultOptionId",
+    "rules",
+    "activeRuleId",
+    "animation",
+    "history",
+    "switchMode",
+    "autoFacing",
+    "attachmentState",
+    "linkGroup",
+];
+
+type RawMetadata = Record<string, unknown>;
+
+/**
+ * Forward migrations keyed by the version they upgrade from
+ * Each one returns metadata in the layout of the next version
+ */
+const migrations: Record<number, (metadata: RawMetadata) => RawMetadata> = {
+    // Version 1 is everything written before metadata had a version field
+    1: (metadata) => ({ ...metadata, version: 2 }),
+};
+
+/**
+ * Metadata read from an item after migrating and repairing it
+ */
+export interface ReadMetadataResult {
+    metadata: ItemMetadata;
+    problems: string[];
+}
+
+function migrate(raw: RawMetadata): RawMetadata {
+    let metadata = raw;
+    let version = typeof metadata.version === 'number' ? metadata.version : 1;
+    while (version < METADATA_VERSION && migrations[version]) {
+        metadata = migrations[version](metadata);
+        version = typeof metadata.version === 'number' ? metadata.version : version + 1;
+    }
+    return metadata;
+}
+
+/**
+ * Turn raw stored metadata into the current schema, dropping anything malformed
+ * Every dropped or fixed field is listed in the returned problems
+ */
+function repair(raw: RawMetadata): ReadMetadataResult {
+    const problems: string[] = [];
+    const version = typeof raw.version === 'number' ? raw.version : METADATA_VERSION;
+    if (version > METADATA_VERSION) {
+        problems.push(`saved by a newer version of Changr (schema ${version})`);
+    }
+
+    const imageOptions: ImageOption[] = [];
+    if (raw.imageOptions !== undefined && !Array.isArray(raw.imageOptions)) {
+        problems.push("imageOptions was not a list");
+    } else if (Array.isArray(raw.imageOptions)) {
+        raw.imageOptions.forEach((option, index) => {
+            const errors = getImageOptionErrors(option);
+            if (errors.length === 0) {
+                imageOptions.push(option as ImageOption);
+            } else {
+                problems.push(`image option ${index + 1} removed: ${errors.join(", ")}`);
+            }
+        });
+    }
+
+    const metadata: ItemMetadata = { version, imageOptions };
+
+    const optionalString = (key: "libraryId" | "defaultOptionId" | "activeRuleId") => {
+        const value = raw[key];
+        if (typeof value === 'string') {
+            metadata[key] = value;
+        } else if (value !== undefined) {
+            problems.push(`${key} was not a string`);
+        }
+    };
+    optionalString("libraryId");
+    optionalString("defaultOptionId");
+    optionalString("activeRuleId");
+
+    if (Array.isArray(raw.rules)) {
+        metadata.rules = raw.rules.filter(isVariantRule);
+        if (metadata.rules.length < raw.rules.length) {
+            problems.push(`${raw.rules.length - metadata.rules.length} invalid rule(s) removed`);
+        }
+    } else if (raw.rules !== undefined) {
+        problems.push("rules was not a list");
+    }
+
+    if (isVariantAnimation(raw.animation)) {
+        metadata.animation = raw.animation;
+    } else if (raw.animation !== undefined) {
+        problems.push("invalid animation removed");
+    }
+
+    if (Array.isArray(raw.history)) {
+        metadata.history = raw.history.filter(isSwitchHistoryEntry);
+        if (metadata.history.length < raw.history.length) {
+            problems.push(`${raw.history.length - metadata.history.length} invalid history entries removed`);
+        }
+    } else if (raw.history !== undefined) {
+        problems.push("history was not a list");
+    }
+
+    if (isSwitchMode(raw.switchMode)) {
+        metadata.switchMode = raw.switchMode;
+    } else if (raw.switchMode !== undefined) {
+        problems.push("unknown switchMode removed");
+    }
+
+    if (typeof raw.autoFacing === 'boolean') {
+        metadata.autoFacing = raw.autoFacing;
+    } else if (raw.autoFacing !== undefined) {
+        problems.push("autoFacing was not a boolean");
+    }
+
+    if (isAttachmentState(raw.attachmentState)) {
+        metadata.attachmentState = raw.attachmentState;
+    } else if (raw.attachmentState !== undefined) {
+        problems.push("invalid attachmentState removed");
+    }
+
+    if (isLinkGroup(raw.linkGroup)) {
+        metadata.linkGroup = raw.linkGroup;
+    } else if (raw.linkGroup !== undefined) {
+        problems.push("invalid linkGroup removed");
+    }
+
+    return { metadata, problems };
+}
+
+/**
+ * Read an item's Changr metadata, migrating and repairing it as needed
+ * Returns undefined if the item has never been set up with Changr
+ */
+export function readItemMetadata(item: Item): ReadMetadataResult | undefined {
+    const raw = item.metadata[METADATA_KEY];
+    if (raw === undefined) {
+        return undefined;
+    }
+    if (!isPlainObject(raw)) {
+        return {
+            metadata: { version: METADATA_VERSION, imageOptions: [] },
+            problems: ["metadata was not an object and has been reset"],
+        };
+    }
+    return repair(migrate(raw as RawMetadata));
+}
+
+/**
+ * Get an item's Changr metadata in the current schema
+ */
+export function getItemMetadata(item: Item): ItemMetadata | undefined {
+    return readItemMetadata(item)?.metadata;
+}
+
+/**
+ * Write Changr metadata onto an item draft
+ * Unknown fields from newer versions are preserved and the version is never lowered
+ */
+export function writeItemMetadata(item: Item, metadata: ItemMetadata): void {
+    const raw = item.metadata[METADATA_KEY];
+    const next: RawMetadata = {};
+    if (isPlainObject(raw)) {
+        for (const [key, value] of Object.entries(raw)) {
+            if (!KNOWN_KEYS.includes(key as keyof ItemMetadata)) {
+                next[key] = value;
+            }
+        }
+    }
+    for (const [key, value] of Object.entries(metadata)) {
+        if (value !== undefined) {
+            next[key] = value;
+        }
+    }
+    next.version = Math.max(metadata.version, METADATA_VERSION);
+    item.metadata[METADATA_KEY] = next;
+}
+
+/**
+ * Read, update and write an item draft's Changr metadata in one step
+ * Items without metadata start from an empty option list
+ */
+export function updateItemMetadata(item: Item, update: (metadata: ItemMetadata) => ItemMetadata): void {
+    const metadata = getItemMetadata(item) ?? { version: METADATA_VERSION, imageOptions: [] };
+    writeItemMetadata(item, update(metadata));
+}
+
+/**
+ * Remove all Changr metadata from an item draft
+ */
+export function clearItemMetadata(item: Item): void {
+    delete item.metadata[METADATA_KEY];
+}
+
+/**
+ * Rewrite the metadata of any of the given items that needed repairs
+ * Returns the problems found, prefixed with the item name
+ */
+export async function repairItemsMetadata(itemIds: string[]): Promise<string[]> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const problems: string[] = [];
+    const repairs = new Map<string, ItemMetadata>();
+    for (const item of items) {
+        const result = readItemMetadata(item);
+        if (result && result.problems.length > 0) {
+            problems.push(...result.problems.map(problem => `${item.name}: ${problem}`));
+            repairs.set(item.id, result.metadata);
+        }
+    }
+
+    if (repairs.size > 0) {
+        await OBR.scene.items.updateItems(
+            (item) => repairs.has(item.id),
+            (items) => {
+                for (const item of items) {
+                    writeItemMetadata(item, repairs.get(item.id)!);
+                }
+            }
+        );
+    }
+    return problems;
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import {
+  ANIMATION_MODES,
+  MIN_FRAME_DURATION,
+  setAnimationPlaying,
+  setItemAnimation,
+  type AnimationMode,
+  type VariantAnimation,
+} from "../animation";
+import type { ImageOption } from "../helpers";
+
+interface AnimationPanelProps {
+  selection: string[];
+  animation?: VariantAnimation;
+  imageOptions: ImageOption[];
+  onChange: () => void;
+}
+
+/**
+ * Pick variants to play through as an animation on the selected items
+ */
+export function AnimationPanel({ selection, animation, imageOptions, onChange }: AnimationPanelProps) {
+  const [frameIds, setFrameIds] = useState<string[]>(animation?.optionIds ?? []);
+  const [frameDuration, setFrameDuration] = useState(String(animation?.frameDuration ?? 500));
+  const [mode, setMode] = useState<AnimationMode>(animation?.mode ?? "LOOP");
+  const isPlaying = animation?.playing ?? false;
+
+  // Pick up animations changed elsewhere without closing the panel
+  const animationKey = JSON.stringify(animation ?? null);
+  const [loadedKey, setLoadedKey] = useState(animationKey);
+  if (animationKey !== loadedKey) {
+    setLoadedKey(animationKey);
+    setFrameIds(animation?.optionIds ?? []);
+    setFrameDuration(String(animation?.frameDuration ?? 500));
+    setMode(animation?.mode ?? "LOOP");
+  }
+
+  const toggleFrame = (optionId: string, checked: boolean) => {
+    setFrameIds(ids => checked ? [...ids, optionId] : ids.filter(id => id !== optionId));
+  };
+
+  const handleToggleClick = async () => {
+    try {
+      if (isPlaying) {
+        await setAnimationPlaying(selection, false);
+      } else {
+        const frames = imageOptions.filter(option => frameIds.includes(option.id));
+        if (frames.length < 2) {
+          await OBR.notification.show("Pick at least two variants to animate", "WARNING");
+          return;
+        }
+        await setItemAnimation(selection, frames, { frameDuration: Number(frameDuration) || 500, mode, playing: true });
+      }
+      onChange();
+    } catch (error) {
+      console.error("Error toggling animation:", error);
+    }
+  };
+
+  return (
+    <details className="rules-panel">
+      <summary>Animation{isPlaying ? " (playing)" : ""}</summary>
+      <div className="frame-list" title="Variants to play through, in list order">
+        {imageOptions.map(option => (
+          <label className="frame-option" key={option.id}>
+            <input
+              type="checkbox"
+              className="frame-checkbox"
+              checked={frameIds.includes(option.id)}
+              onChange={(event) => toggleFrame(option.id, event.target.checked)}
+            />
+            {option.name}
+          </label>
+        ))}
+      </div>
+      <div className="library-row">
+        <input
+          className="library-name"
+          type="number"
+          min={MIN_FRAME_DURATION}
+          step={50}
+          title="Frame duration in milliseconds"
+          value={frameDuration}
+          onChange={(event) => setFrameDuration(event.target.value)}
+        />
+        <select className="library-select" title="Playback mode" value={mode} onChange={(event) => setMode(event.target.value as AnimationMode)}>
+          {ANIMATION_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+        </select>
+      </div>
+      <div className="library-row">
+        <button className="library-button animation-toggle" title="Playback runs on the GM's client" onClick={handleToggleClick}>
+          {isPlaying ? "Stop" : "Play"}
+        </button>
+      </div>
+    </details>
+  );
+}
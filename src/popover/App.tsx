@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import {
+  addImageOptions,
+  createImageOptionFromDownload,
+  getAssetTypeForLayer,
+  getCopyCurrentGrid,
+  getDefaultImageOptionId,
+  isImageOptionActive,
+  matchesImageOptionSearch,
+  moveImageOption,
+  saveCurrentImageState,
+  setCopyCurrentGrid,
+  updateItemWithImageOption,
+  type ImageOption,
+} from "../helpers";
+import { hasSwitchHistory, revertToPreviousState, undoLastSwitch } from "../history";
+import { importImageOptions, importLibraries, type ImportCollisionPolicy, type ParsedImport } from "../transfer";
+import { proposeImageOption } from "../proposals";
+import { needsSearchBar } from "../embed";
+import { usePopoverData } from "./usePopoverData";
+import { useBrokenUrls } from "./useBrokenUrls";
+import { useVariantPreview } from "./useVariantPreview";
+import { ScrollContainer } from "./ScrollContainer";
+import { VariantButton } from "./VariantButton";
+import { VariantMenu } from "./VariantMenu";
+import { ImportSummary } from "./ImportSummary";
+import { TransferBar } from "./TransferBar";
+import { SwitchModeBar } from "./SwitchModeBar";
+import { AutoFacingToggle } from "./AutoFacingToggle";
+import { RandomizeBar } from "./RandomizeBar";
+import { LinkGroupBar } from "./LinkGroupBar";
+import { LibraryBar } from "./LibraryBar";
+import { RulesPanel } from "./RulesPanel";
+import { AnimationPanel } from "./AnimationPanel";
+import { VariantSearchBar } from "./VariantSearchBar";
+
+/**
+ * The inline menu shown below the variants, if any
+ */
+type OpenMenu =
+  | { type: "VARIANT"; optionId: string; focusName: boolean }
+  | { type: "IMPORT"; parsed: ParsedImport; libraryCount: number; collisionCount: number };
+
+/**
+ * The popover that is shown once the context menu item is clicked
+ */
+export function App() {
+  const { data, reload } = usePopoverData();
+  const [menu, setMenu] = useState<OpenMenu>();
+  const [addToMissing, setAddToMissing] = useState(false);
+  const [copyCurrentGrid, setCopyCurrentGridState] = useState(getCopyCurrentGrid);
+  const [search, setSearch] = useState("");
+  const [preview, setPreview] = useState<ImageOption>();
+  const imageOptions = useMemo(() => data?.sharedOptions.map(shared => shared.option) ?? [], [data]);
+  const brokenUrls = useBrokenUrls(imageOptions);
+
+  // Callbacks read the latest data through a ref so the variant buttons aren't re-rendered on every reload
+  const dataRef = useRef(data);
+  useEffect(() => {
+    dataRef.current = data;
+  });
+
+  const handleSelect = useCallback(async (option: ImageOption) => {
+    try {
+      await updateItemWithImageOption(option, addToMissing);
+    } catch (error) {
+      console.error("Error switching image option:", error);
+    }
+  }, [addToMissing]);
+
+  const handleOpenMenu = useCallback((option: ImageOption, focusName: boolean) => {
+    setMenu({ type: "VARIANT", optionId: option.id, focusName });
+  }, []);
+
+  const handleDrop = useCallback(async (draggedId: string, target: ImageOption | undefined) => {
+    const current = dataRef.current;
+    const dragged = current?.sharedOptions.find(shared => shared.option.id === draggedId);
+    if (!current || !dragged) return;
+
+    try {
+      await moveImageOption(current.selection, dragged.option, target);
+      reload();
+    } catch (error) {
+      console.error("Error reordering image options:", error);
+    }
+  }, [reload]);
+
+  const closeMenu = useCallback(() => setMenu(undefined), []);
+  const handlePreview = useCallback((option: ImageOption | undefined) => setPreview(option), []);
+  useVariantPreview(menu ? undefined : preview);
+
+  if (!data) {
+    return null;
+  }
+
+  const { selection, items, sharedOptions, secretItem, isGM, canEdit } = data;
+  const libraryOptionIds = new Set(data.linkedLibrary?.imageOptions.map(option => option.id));
+  const defaultOptionIds = new Set(items.map(getDefaultImageOptionId));
+  const isMultiSelect = selection.length > 1;
+  const menuOption = menu?.type === "VARIANT" ? sharedOptions.find(shared => shared.option.id === menu.optionId) : undefined;
+  const showSearch = needsSearchBar(imageOptions);
+  const tags = [...new Set(imageOptions.flatMap(option => option.tags ?? []))].sort();
+  const visibleOptions = showSearch && search.trim()
+    ? sharedOptions.filter(shared => matchesImageOptionSearch(shared.option, search))
+    : sharedOptions;
+
+  const handleAddClick = async () => {
+    try {
+      // Open the image picker on the asset type of the selected item's layer
+      // Several images can be picked at once, e.g. a whole set of expressions
+      const downloadResult = await OBR.assets.downloadImages(true, undefined, getAssetTypeForLayer(items[0]?.layer));
+      if (downloadResult && downloadResult.length > 0) {
+        const { added, skippedNames } = await addImageOptions(downloadResult, copyCurrentGrid);
+        if (skippedNames.length > 0) {
+          await OBR.notification.show(
+            `Added ${added} image${added === 1 ? "" : "s"}, skipped ${skippedNames.length} already there: ${skippedNames.join(", ")}`,
+            "WARNING"
+          );
+        }
+        reload();
+      }
+    } catch (error) {
+      console.error("Error adding image option:", error);
+    }
+  };
+
+  const handleProposeClick = async () => {
+    try {
+      const downloadResult = await OBR.assets.downloadImages(false, undefined, getAssetTypeForLayer(items[0]?.layer));
+      if (downloadResult && downloadResult.length > 0) {
+        await proposeImageOption(items, createImageOptionFromDownload(downloadResult[0]));
+      }
+    } catch (error) {
+      console.error("Error proposing image option:", error);
+    }
+  };
+
+  const handleCopyCurrentGridChange = (checked: boolean) => {
+    setCopyCurrentGrid(checked);
+    setCopyCurrentGridState(checked);
+  };
+
+  const handleSaveStateClick = async () => {
+    try {
+      await saveCurrentImageState();
+      reload();
+    } catch (error) {
+      console.error("Error saving current state:", error);
+    }
+  };
+
+  const handleUndoClick = async () => {
+    try {
+      await undoLastSwitch(selection);
+    } catch (error) {
+      console.error("Error undoing image change:", error);
+    }
+  };
+
+  const handleRevertClick = async () => {
+    try {
+      await revertToPreviousState(selection);
+    } catch (error) {
+      console.error("Error reverting image change:", error);
+    }
+  };
+
+  const handleImport = async (parsed: ParsedImport, libraryCount: number, policy: ImportCollisionPolicy) => {
+    try {
+      await importImageOptions(selection, parsed.imageOptions, policy);
+      await importLibraries(libraryCount > 0 ? parsed.libraries : [], policy);
+      reload();
+    } catch (error) {
+      console.error("Error importing image options:", error);
+    }
+  };
+
+  return (
+    <>
+      <ScrollContainer>
+        {showSearch && <VariantSearchBar search={search} tags={tags} onSearchChange={setSearch} />}
+        <div className="image-options">
+          {search.trim() && visibleOptions.length === 0 && (
+            <p className="variant-search-empty">No variants match &quot;{search.trim()}&quot;</p>
+          )}
+          {visibleOptions.map(({ option, itemIds }) => (
+            <VariantButton
+              key={option.id}
+              option={option}
+              isActive={items.some(item => isImageOptionActive(item, option))}
+              isDefault={defaultOptionIds.has(option.id)}
+              isLibraryOption={libraryOptionIds.has(option.id)}
+              isBroken={brokenUrls.has(option.url)}
+              // With several items selected, mark variants that only some of them have
+              coverage={isMultiSelect && itemIds.length < selection.length ? itemIds.length : undefined}
+              selectionCount={selection.length}
+              canEdit={canEdit}
+              onSelect={handleSelect}
+              onOpenMenu={handleOpenMenu}
+              onDrop={handleDrop}
+              onPreview={handlePreview}
+            />
+          ))}
+          {secretItem && (
+            <div className="image-button selected secret-current" title="Current image">
+              <img className="image-thumbnail" src={secretItem.image.url} alt="Current image" />
+            </div>
+          )}
+          {!canEdit && !isGM && items.length > 0 && (
+            <button className="add-button propose-button" title="Suggest a new image to the GM" onClick={handleProposeClick}>
+              <div className="add-icon">+</div>
+            </button>
+          )}
+          {canEdit && (
+            <>
+              <button
+                className="add-button"
+                title="Add new image options, pick several at once to add a whole set"
+                onClick={handleAddClick}
+                // Dropping on the add button moves a variant to the end of the list
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  const draggedId = event.dataTransfer.getData("text/plain");
+                  if (draggedId) {
+                    handleDrop(draggedId, undefined);
+                  }
+                }}
+              >
+                <div className="add-icon">+</div>
+              </button>
+              <button
+                className="add-button save-state-button"
+                title="Save current state (image, scale, rotation, label, visibility)"
+                onClick={handleSaveStateClick}
+              >
+                <div className="add-icon save-state-icon">&#x2913;</div>
+              </button>
+            </>
+          )}
+        </div>
+        {canEdit && (
+          <label className="multi-select-bar" title="Give added images the grid dpi and offset of the current image instead of their own">
+            <input type="checkbox" checked={copyCurrentGrid} onChange={(event) => handleCopyCurrentGridChange(event.target.checked)} />
+            New images use the current image's grid
+          </label>
+        )}
+        {hasSwitchHistory(items) && (
+          <div className="library-bar history-bar">
+            <div className="library-row">
+              <button className="library-button transfer-button" title="Undo the last image change, including every item changed with it" onClick={handleUndoClick}>
+                Undo
+              </button>
+              <button className="library-button transfer-button" title="Switch back to the image shown before the last change" onClick={handleRevertClick}>
+                Revert
+              </button>
+            </div>
+          </div>
+        )}
+        {canEdit && (
+          <TransferBar
+            selection={selection}
+            isGM={isGM}
+            onImport={(parsed, libraryCount, collisionCount) => setMenu({ type: "IMPORT", parsed, libraryCount, collisionCount })}
+          />
+        )}
+        {canEdit && <SwitchModeBar selection={selection} switchMode={data.switchMode} onChange={reload} />}
+        {canEdit && (data.autoFacing || imageOptions.some(option => option.facing)) && (
+          <AutoFacingToggle selection={selection} autoFacing={data.autoFacing} onChange={reload} />
+        )}
+        {isMultiSelect && sharedOptions.length > 0 && <RandomizeBar selection={selection} />}
+        {(data.linkGroup || (isMultiSelect && canEdit)) && (
+          <LinkGroupBar
+            selection={selection}
+            items={items}
+            linkGroup={data.linkGroup}
+            linkGroupSize={data.linkGroupSize}
+            canEdit={canEdit}
+            onChange={reload}
+          />
+        )}
+        {isMultiSelect && canEdit && (
+          <label className="multi-select-bar" title="Add a variant to the selected items that don't have it before switching">
+            <input type="checkbox" checked={addToMissing} onChange={(event) => setAddToMissing(event.target.checked)} />
+            Add missing variants to all {selection.length} items
+          </label>
+        )}
+        {isGM && items.length > 0 && (
+          <LibraryBar
+            selection={selection}
+            libraries={data.libraries}
+            linkedLibrary={data.linkedLibrary}
+            imageOptions={imageOptions}
+            onChange={reload}
+          />
+        )}
+        {data.rules && (
+          <RulesPanel selection={selection} rules={data.rules} imageOptions={imageOptions} onChange={reload} />
+        )}
+        {canEdit && (
+          <AnimationPanel
+            selection={selection}
+            animation={data.animation}
+            imageOptions={imageOptions}
+            onChange={reload}
+          />
+        )}
+      </ScrollContainer>
+      {menuOption && menu?.type === "VARIANT" && (
+        <VariantMenu
+          key={menuOption.option.id}
+          data={data}
+          shared={menuOption}
+          isBroken={brokenUrls.has(menuOption.option.url)}
+          focusName={menu.focusName}
+          onClose={closeMenu}
+        />
+      )}
+      {menu?.type === "IMPORT" && (
+        <ImportSummary
+          parsed={menu.parsed}
+          libraryCount={menu.libraryCount}
+          collisionCount={menu.collisionCount}
+          onConfirm={(policy) => handleImport(menu.parsed, menu.libraryCount, policy)}
+          onClose={() => setMenu(undefined)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import { setItemsAutoFacing } from "../facing";
+
+interface AutoFacingToggleProps {
+  selection: string[];
+  autoFacing: boolean;
+  onChange: () => void;
+}
+
+/**
+ * Turn auto-facing on or off for the selected items
+ * Only items showing a variant with a facing are switched when they move
+ */
+export function AutoFacingToggle({ selection, autoFacing, onChange }: AutoFacingToggleProps) {
+  const handleChange = async (checked: boolean) => {
+    try {
+      await setItemsAutoFacing(selection, checked);
+      onChange();
+    } catch (error) {
+      console.error("Error setting auto-facing:", error);
+    }
+  };
+
+  return (
+    <label className="multi-select-bar" title="Switch to the variant facing the way the token is moved (runs on the GM's client)">
+      <input type="checkbox" checked={autoFacing} onChange={(event) => handleChange(event.target.checked)} />
+      Face the direction of movement
+    </label>
+  );
+}
@@ -0,0 +1,21 @@
+import type { ImageOption } from "../helpers";
+import { VariantThumbnail } from "./VariantThumbnail";
+
+/**
+ * Large preview of the variant under the pointer, with its name and size
+ */
+export function HoverPreview({ option }: { option: ImageOption }) {
+  let size = `${option.width} × ${option.height} px`;
+  if (option.dpi) {
+    const cells = (pixels: number) => Math.round(pixels / option.dpi! * 10) / 10;
+    size += `, ${cells(option.width)} × ${cells(option.height)} cells`;
+  }
+
+  return (
+    <div className="hover-preview">
+      <VariantThumbnail option={option} className="hover-preview-image" />
+      <div className="hover-preview-name">{option.name}</div>
+      <div className="hover-preview-size">{size}</div>
+    </div>
+  );
+}
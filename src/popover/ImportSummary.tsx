@@ -0,0 +1,57 @@
+import type { ImportCollisionPolicy, ParsedImport } from "../transfer";
+
+interface ImportSummaryProps {
+  parsed: ParsedImport;
+  libraryCount: number;
+  collisionCount: number;
+  onConfirm: (policy: ImportCollisionPolicy) => void;
+  onClose: () => void;
+}
+
+/**
+ * Show what an import will do, with a choice between merge and replace when URLs collide
+ * Invalid entries are listed so nothing is dropped silently
+ */
+export function ImportSummary({ parsed, libraryCount, collisionCount, onConfirm, onClose }: ImportSummaryProps) {
+  const summary = [`${parsed.imageOptions.length} variant${parsed.imageOptions.length === 1 ? "" : "s"}`];
+  if (libraryCount > 0) {
+    summary.push(`${libraryCount} librar${libraryCount === 1 ? "y" : "ies"}`);
+  }
+  if (collisionCount > 0) {
+    summary.push(`${collisionCount} already exist`);
+  }
+  if (parsed.invalidEntries.length > 0) {
+    summary.push(`${parsed.invalidEntries.length} invalid`);
+  }
+
+  const confirm = (policy: ImportCollisionPolicy) => {
+    onClose();
+    onConfirm(policy);
+  };
+
+  return (
+    <div className="variant-menu import-summary">
+      <div className="import-details">
+        <div className="import-counts">{summary.join(", ")}</div>
+        {parsed.invalidEntries.map((entry, index) => (
+          <div className="import-error" key={index}>{entry.location}: {entry.errors.join(", ")}</div>
+        ))}
+      </div>
+      {collisionCount > 0 ? (
+        <>
+          <button className="library-button" title="Keep existing variants with the same image" onClick={() => confirm("MERGE")}>Merge</button>
+          <button className="library-button" title="Overwrite existing variants with the same image" onClick={() => confirm("REPLACE")}>Replace</button>
+        </>
+      ) : (
+        <button
+          className="library-button"
+          disabled={parsed.imageOptions.length === 0 && libraryCount === 0}
+          onClick={() => confirm("MERGE")}
+        >
+          Import
+        </button>
+      )}
+      <button className="variant-menu-button" title="Cancel" onClick={onClose}>&times;</button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useRef, useState } from "react";
+import { createLibrary, deleteLibrary, setItemsLibrary, type VariantLibrary } from "../library";
+import type { ImageOption } from "../helpers";
+
+interface LibraryBarProps {
+  selection: string[];
+  libraries: VariantLibrary[];
+  linkedLibrary?: VariantLibrary;
+  imageOptions: ImageOption[];
+  onChange: () => void;
+}
+
+/**
+ * Link the selection to a scene library or save its variants as a new one
+ * Libraries are scene-wide so only GMs see this bar
+ */
+export function LibraryBar({ selection, libraries, linkedLibrary, imageOptions, onChange }: LibraryBarProps) {
+  const [name, setName] = useState("");
+  const [deleting, setDeleting] = useState<VariantLibrary>();
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelectChange = async (libraryId: string) => {
+    try {
+      await setItemsLibrary(selection, libraryId || undefined);
+      onChange();
+    } catch (error) {
+      console.error("Error linking variant library:", error);
+    }
+  };
+
+  const handleSaveClick = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      nameInputRef.current?.focus();
+      return;
+    }
+
+    try {
+      // Save the current variants as a library and link the selection to it
+      const library = await createLibrary(trimmedName, imageOptions);
+      await setItemsLibrary(selection, library.id);
+      setName("");
+      onChange();
+    } catch (error) {
+      console.error("Error saving variant library:", error);
+    }
+  };
+
+  const handleDeleteConfirm = async (library: VariantLibrary) => {
+    setDeleting(undefined);
+    try {
+      await deleteLibrary(library.id);
+      onChange();
+    } catch (error) {
+      console.error("Error deleting variant library:", error);
+    }
+  };
+
+  return (
+    <div className="library-bar">
+      <div className="library-row">
+        <select
+          className="library-select"
+          title="Variant library linked to this item"
+          value={linkedLibrary?.id ?? ""}
+          onChange={(event) => handleSelectChange(event.target.value)}
+        >
+          <option value="">No library</option>
+          {libraries.map(library => (
+            <option key={library.id} value={library.id}>{library.name}</option>
+          ))}
+        </select>
+        {linkedLibrary && (
+          <button className="library-button" title="Delete this library from the scene" onClick={() => setDeleting(linkedLibrary)}>
+            &times;
+          </button>
+        )}
+      </div>
+      <div className="library-row">
+        <input
+          ref={nameInputRef}
+          className="library-name"
+          type="text"
+          placeholder="New library name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button className="library-button" title="Save these variants as a new library" onClick={handleSaveClick}>Save</button>
+      </div>
+      {deleting && (
+        <div className="variant-menu">
+          <span className="variant-menu-label" title="Linked items will keep their own variants">
+            Delete the "{deleting.name}" library?
+          </span>
+          <button className="library-button" title="Linked items will keep their own variants" onClick={() => handleDeleteConfirm(deleting)}>
+            Delete
+          </button>
+          <button className="variant-menu-button" title="Cancel" onClick={() => setDeleting(undefined)}>&times;</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import OBR, { type Image } from "@owlbear-rodeo/sdk";
+import { getItemLinkGroup, linkItems, setLinkGroupAcrossScenes, unlinkItems, type LinkGroup } from "../linkGroups";
+
+interface LinkGroupBarProps {
+  selection: string[];
+  items: Image[];
+  linkGroup?: LinkGroup;
+  linkGroupSize: number;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+/**
+ * Show whether the selected tokens are linked, and link or unlink them
+ * Linked tokens switch to the matching variant whenever one of them is switched
+ */
+export function LinkGroupBar({ selection, items, linkGroup, linkGroupSize, canEdit, onChange }: LinkGroupBarProps) {
+  const allLinked = linkGroup !== undefined && items.every(item => getItemLinkGroup(item)?.id === linkGroup.id);
+  const otherCount = linkGroupSize - 1;
+
+  const handleLinkClick = async () => {
+    try {
+      await linkItems(selection);
+      onChange();
+    } catch (error) {
+      console.error("Error linking items:", error);
+    }
+  };
+
+  const handleUnlinkClick = async () => {
+    try {
+      await unlinkItems(selection);
+      onChange();
+    } catch (error) {
+      console.error("Error unlinking items:", error);
+    }
+  };
+
+  const handleAcrossScenesChange = async (checked: boolean) => {
+    if (!linkGroup) return;
+    try {
+      await setLinkGroupAcrossScenes(linkGroup.id, checked);
+      if (checked) {
+        await OBR.notification.show("Linked tokens in other scenes catch up when the GM opens their scene", "INFO");
+      }
+      onChange();
+    } catch (error) {
+      console.error("Error updating link group:", error);
+    }
+  };
+
+  return (
+    <div className="library-bar link-group-bar">
+      {linkGroup && (
+        <div className="library-row">
+          <span className="link-group-label" title="Switching any token in the group switches the others to the matching variant">
+            {otherCount > 0 ? `Linked with ${otherCount} other token${otherCount === 1 ? "" : "s"}` : "Linked, no other tokens in this scene"}
+          </span>
+          {canEdit && (
+            <label className="randomize-option" title="Also switch tokens of this group in the room's other scenes">
+              <input
+                type="checkbox"
+                checked={linkGroup.acrossScenes === true}
+                onChange={(event) => handleAcrossScenesChange(event.target.checked)}
+              />
+              Also in other scenes
+            </label>
+          )}
+        </div>
+      )}
+      {canEdit && (
+        <div className="library-row">
+          {selection.length > 1 && !allLinked && (
+            <button className="library-button transfer-button" title="Link the selected tokens so they always switch together" onClick={handleLinkClick}>
+              Link these {selection.length} tokens
+            </button>
+          )}
+          {linkGroup && (
+            <button className="library-button transfer-button" title="Take the selected tokens out of their group" onClick={handleUnlinkClick}>
+              Unlink
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import type { ImageOption } from "../helpers";
+import { onVariantPreviewChange, requestVariantPreview } from "../previewPopover";
+import { HoverPreview } from "./HoverPreview";
+
+/**
+ * The preview popover's page, showing whichever variant the variant menu sends it
+ */
+export function PreviewPage() {
+  const [option, setOption] = useState<ImageOption>();
+
+  useEffect(() => {
+    const unsubscribe = onVariantPreviewChange(setOption);
+    requestVariantPreview().catch(error => console.error("Error requesting variant preview:", error));
+    return unsubscribe;
+  }, []);
+
+  return option ? <HoverPreview option={option} /> : null;
+}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import { getAvoidNeighbors, randomizeItems, setAvoidNeighbors } from "../randomize";
+
+interface RandomizeBarProps {
+  selection: string[];
+}
+
+/**
+ * Give every selected token a random variant of its own
+ */
+export function RandomizeBar({ selection }: RandomizeBarProps) {
+  const [avoidNeighbors, setAvoidNeighborsState] = useState(getAvoidNeighbors);
+
+  const handleAvoidNeighborsChange = (checked: boolean) => {
+    setAvoidNeighbors(checked);
+    setAvoidNeighborsState(checked);
+  };
+
+  const handleRandomizeClick = async () => {
+    try {
+      const count = await randomizeItems(selection, avoidNeighbors);
+      if (count === 0) {
+        await OBR.notification.show("Every token already shows the picked variant", "INFO");
+      }
+    } catch (error) {
+      console.error("Error randomizing variants:", error);
+    }
+  };
+
+  return (
+    <div className="library-bar">
+      <div className="library-row">
+        <button className="library-button transfer-button" title="Give each selected token a random variant from its own list" onClick={handleRandomizeClick}>
+          Randomize
+        </button>
+        <label className="randomize-option" title="Keep tokens next to each other from showing the same image, when they have enough variants">
+          <input type="checkbox" checked={avoidNeighbors} onChange={(event) => handleAvoidNeighborsChange(event.target.checked)} />
+          No matching neighbors
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useRef, useState } from "react";
+import { addRule, describeRule, parseRuleValue, removeRule, RULE_OPERATORS, type RuleOperator, type VariantRule } from "../rules";
+import type { ImageOption } from "../helpers";
+
+interface RulesPanelProps {
+  selection: string[];
+  rules: VariantRule[];
+  imageOptions: ImageOption[];
+  onChange: () => void;
+}
+
+/**
+ * Edit the metadata rules that switch the selected item's image
+ * Rules are applied by the GM's client so only GMs see this panel
+ */
+export function RulesPanel({ selection, rules, imageOptions, onChange }: RulesPanelProps) {
+  const [path, setPath] = useState("");
+  const [relativeTo, setRelativeTo] = useState("");
+  const [operator, setOperator] = useState<RuleOperator>(RULE_OPERATORS[0]);
+  const [value, setValue] = useState("");
+  const [optionId, setOptionId] = useState("");
+  const pathInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddClick = async () => {
+    const trimmedPath = path.trim();
+    if (!trimmedPath) {
+      pathInputRef.current?.focus();
+      return;
+    }
+
+    // The select shows the first variant until another one is picked
+    const imageOption = imageOptions.find(option => option.id === optionId) ?? imageOptions[0];
+    if (!imageOption) return;
+
+    try {
+      await addRule(
+        selection,
+        { path: trimmedPath, relativeTo: relativeTo.trim() || undefined, operator, value: parseRuleValue(value) },
+        imageOption
+      );
+      onChange();
+    } catch (error) {
+      console.error("Error adding rule:", error);
+    }
+  };
+
+  const handleRemoveClick = async (ruleId: string) => {
+    try {
+      await removeRule(selection, ruleId);
+      onChange();
+    } catch (error) {
+      console.error("Error removing rule:", error);
+    }
+  };
+
+  return (
+    <details className="rules-panel">
+      <summary>Rules ({rules.length})</summary>
+      {rules.map((rule) => {
+        const target = imageOptions.find(option => option.id === rule.optionId);
+        return (
+          <div className="rule-row" key={rule.id}>
+            <span className="rule-text" title="First matching rule switches the image">
+              {describeRule(rule)} &rarr; {target?.name ?? "missing variant"}
+            </span>
+            <button className="library-button rule-remove" title="Remove rule" onClick={() => handleRemoveClick(rule.id)}>&times;</button>
+          </div>
+        );
+      })}
+      <div className="library-row">
+        <input
+          ref={pathInputRef}
+          className="library-name"
+          type="text"
+          placeholder="Metadata path"
+          title="Metadata key path, e.g. com.example/metadata.hp"
+          value={path}
+          onChange={(event) => setPath(event.target.value)}
+        />
+      </div>
+      <div className="library-row">
+        <input
+          className="library-name"
+          type="text"
+          placeholder="Divide by path (optional)"
+          title="Compare the value as a fraction of this path, e.g. a max health value"
+          value={relativeTo}
+          onChange={(event) => setRelativeTo(event.target.value)}
+        />
+      </div>
+      <div className="library-row">
+        <select className="library-select rule-operator" value={operator} onChange={(event) => setOperator(event.target.value as RuleOperator)}>
+          {RULE_OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+        </select>
+        <input className="library-name" type="text" placeholder="Value" value={value} onChange={(event) => setValue(event.target.value)} />
+      </div>
+      <div className="library-row">
+        <select className="library-select" title="Variant to switch to" value={optionId} onChange={(event) => setOptionId(event.target.value)}>
+          {imageOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+        </select>
+        <button className="library-button" title="Add rule" onClick={handleAddClick}>Add</button>
+      </div>
+    </details>
+  );
+}
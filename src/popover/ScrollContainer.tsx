@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { createPortal } from "react-dom";
+import SimpleBar from "simplebar";
+import "simplebar/dist/simplebar.min.css";
+
+/**
+ * Scrollable area styled with SimpleBar
+ * SimpleBar rearranges the DOM of its container, so React renders into the
+ * content element SimpleBar creates instead of into the container itself
+ */
+export function ScrollContainer({ children }: { children: ReactNode }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [content, setContent] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const simpleBar = new SimpleBar(containerRef.current!, {
+      autoHide: true,
+      scrollbarMinSize: 20,
+      scrollbarMaxSize: 20,
+    });
+    setContent(simpleBar.getContentElement());
+    return () => simpleBar.unMount();
+  }, []);
+
+  return (
+    <div className="scroll-container" ref={containerRef}>
+      {content && createPortal(children, content)}
+    </div>
+  );
+}
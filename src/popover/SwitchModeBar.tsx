@@ -0,0 +1,39 @@
+import { isSwitchMode, setItemsSwitchMode, SWITCH_MODES, type SwitchMode } from "../switchModes";
+
+interface SwitchModeBarProps {
+  selection: string[];
+  switchMode?: SwitchMode;
+  onChange: () => void;
+}
+
+/**
+ * Pick how switches fit new images onto the map for the selected items
+ * Variants can override this from their menu
+ */
+export function SwitchModeBar({ selection, switchMode, onChange }: SwitchModeBarProps) {
+  const handleChange = async (value: string) => {
+    try {
+      // The variant's grid size is the default, so it isn't stored
+      await setItemsSwitchMode(selection, isSwitchMode(value) && value !== "VARIANT" ? value : undefined);
+      onChange();
+    } catch (error) {
+      console.error("Error setting switch mode:", error);
+    }
+  };
+
+  return (
+    <div className="library-bar">
+      <div className="library-row">
+        <span className="switch-mode-label">On switch</span>
+        <select
+          className="library-select"
+          title="How new images are fitted onto the map when these items switch"
+          value={switchMode ?? "VARIANT"}
+          onChange={(event) => handleChange(event.target.value)}
+        >
+          {SWITCH_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useRef, type ChangeEvent } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import {
+  buildExport,
+  buildSceneExport,
+  countImportCollisions,
+  downloadExport,
+  parseImport,
+  type ParsedImport,
+} from "../transfer";
+
+interface TransferBarProps {
+  selection: string[];
+  // Scene exports and library imports are only offered to GMs
+  isGM: boolean;
+  onImport: (parsed: ParsedImport, libraryCount: number, collisionCount: number) => void;
+}
+
+/**
+ * Export the selection's variants to a JSON file or import them from one
+ */
+export function TransferBar({ selection, isGM, onImport }: TransferBarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportClick = async (wholeScene: boolean) => {
+    try {
+      if (wholeScene) {
+        downloadExport(await buildSceneExport(), "changr-scene");
+        return;
+      }
+
+      const data = await buildExport(selection, false);
+      const fileName = data.sets.length === 1 ? `changr-${data.sets[0].name || "variants"}` : "changr-variants";
+      downloadExport(data, fileName);
+    } catch (error) {
+      console.error("Error exporting image options:", error);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = "";
+    if (!file) return;
+
+    let parsed: ParsedImport;
+    try {
+      parsed = parseImport(await file.text());
+    } catch (error) {
+      await OBR.notification.show(`Import failed: ${error instanceof Error ? error.message : String(error)}`, "ERROR");
+      return;
+    }
+
+    const libraryCount = isGM ? parsed.libraries.length : 0;
+    onImport(parsed, libraryCount, await countImportCollisions(selection, parsed.imageOptions));
+  };
+
+  return (
+    <div className="library-bar">
+      <div className="library-row">
+        <button className="library-button transfer-button" title="Download the selected items' variants as a JSON file" onClick={() => handleExportClick(false)}>
+          Export
+        </button>
+        {isGM && (
+          <button className="library-button transfer-button" title="Download every item's variants and the scene's libraries" onClick={() => handleExportClick(true)}>
+            Export scene
+          </button>
+        )}
+        <button className="library-button transfer-button" title="Add variants from an exported JSON file" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { memo, useEffect, useRef, useState, type MouseEvent } from "react";
+import type { ImageOption } from "../helpers";
+import { VariantThumbnail } from "./VariantThumbnail";
+
+/** How long the pointer rests on a thumbnail before the large preview opens */
+const PREVIEW_DELAY = 400;
+
+interface VariantButtonProps {
+  option: ImageOption;
+  isActive: boolean;
+  isDefault: boolean;
+  isLibraryOption: boolean;
+  // The variant's image failed to load
+  isBroken: boolean;
+  // Number of selected items that have this variant, when only some of them do
+  coverage?: number;
+  selectionCount: number;
+  canEdit: boolean;
+  onSelect: (option: ImageOption) => void;
+  onOpenMenu: (option: ImageOption, focusName: boolean) => void;
+  onDrop: (draggedId: string, target: ImageOption) => void;
+  // Show the large preview of a variant, or hide it with undefined
+  onPreview: (option: ImageOption | undefined) => void;
+}
+
+/**
+ * Variant options are read fresh from the metadata on every reload, so compare them by value
+ */
+function arePropsEqual(previous: VariantButtonProps, next: VariantButtonProps): boolean {
+  return (Object.keys(next) as (keyof VariantButtonProps)[]).every(key =>
+    key === "option"
+      ? JSON.stringify(previous.option) === JSON.stringify(next.option)
+      : previous[key] === next[key]
+  );
+}
+
+/**
+ * Thumbnail of a single variant
+ * Rendered by variant id, so the thumbnail element is kept and images don't reload on updates
+ */
+export const VariantButton = memo(function VariantButton({
+  option,
+  isActive,
+  isDefault,
+  isLibraryOption,
+  isBroken,
+  coverage,
+  selectionCount,
+  canEdit,
+  onSelect,
+  onOpenMenu,
+  onDrop,
+  onPreview,
+}: VariantButtonProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const previewTimer = useRef<number>(undefined);
+
+  useEffect(() => () => window.clearTimeout(previewTimer.current), []);
+
+  const showPreview = () => {
+    window.clearTimeout(previewTimer.current);
+    previewTimer.current = window.setTimeout(() => onPreview(option), PREVIEW_DELAY);
+  };
+
+  const hidePreview = () => {
+    window.clearTimeout(previewTimer.current);
+    onPreview(undefined);
+  };
+
+  let title = isDefault ? `${option.name} (default)` : option.name;
+  if (option.gmOnly) {
+    title += " (GM only)";
+  }
+  if (isBroken) {
+    title += " (image can't be loaded)";
+  }
+  if (option.attachments) {
+    title += " (changes attachments)";
+  }
+  if (option.sceneState) {
+    title += ` [${option.sceneState}]`;
+  }
+  if (coverage !== undefined) {
+    title += ` (${coverage} of ${selectionCount} selected)`;
+  }
+
+  const className = [
+    "image-button",
+    isActive && "selected",
+    isLibraryOption && "library-option",
+    isBroken && "broken",
+    coverage !== undefined && "partial",
+    isDragging && "dragging",
+    isDropTarget && "drop-target",
+  ].filter(Boolean).join(" ");
+
+  const handleContextMenu = (event: MouseEvent) => {
+    event.preventDefault();
+    onOpenMenu(option, false);
+  };
+
+  return (
+    <button
+      className={className}
+      title={title}
+      draggable={canEdit}
+      onClick={() => onSelect(option)}
+      onContextMenu={handleContextMenu}
+      onMouseEnter={showPreview}
+      onMouseLeave={hidePreview}
+      // Editing (rename, reorder, default) requires permission to add variants
+      onDoubleClick={canEdit ? () => onOpenMenu(option, true) : undefined}
+      onDragStart={(event) => {
+        hidePreview();
+        event.dataTransfer.setData("text/plain", option.id);
+        setIsDragging(true);
+      }}
+      onDragEnd={() => setIsDragging(false)}
+      onDragOver={canEdit ? (event) => {
+        event.preventDefault();
+        setIsDropTarget(true);
+      } : undefined}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={canEdit ? (event) => {
+        event.preventDefault();
+        setIsDropTarget(false);
+        const draggedId = event.dataTransfer.getData("text/plain");
+        if (draggedId && draggedId !== option.id) {
+          onDrop(draggedId, option);
+        }
+      } : undefined}
+    >
+      <VariantThumbnail option={option} className="image-thumbnail" />
+      {isDefault && <span className="default-badge">&#x2605;</span>}
+      {option.gmOnly && <span className="secret-badge">&#x1F441;</span>}
+      {isBroken && <span className="broken-badge">!</span>}
+      {coverage !== undefined && <span className="coverage-badge">{coverage}/{selectionCount}</span>}
+    </button>
+  );
+}, arePropsEqual);
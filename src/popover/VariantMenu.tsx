@@ -0,0 +1,281 @@
+import { useState, type KeyboardEvent } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import {
+  getAssetTypeForLayer,
+  getDefaultImageOptionId,
+  getItemOwnImageOptions,
+  isImageOptionActive,
+  isSameVariant,
+  removeImageOption,
+  renameImageOption,
+  replaceImageOptionImage,
+  setDefaultImageOption,
+  setImageOptionFacing,
+  setImageOptionGmOnly,
+  setImageOptionSceneState,
+  setImageOptionSwitchMode,
+  setImageOptionTags,
+  setImageOptionWeight,
+  type SharedImageOption,
+} from "../helpers";
+import { isSwitchMode, SWITCH_MODES } from "../switchModes";
+import { FACINGS, isFacing } from "../facing";
+import { getImageOptionWeight } from "../randomize";
+import { clearVariantAttachments, recordAttachmentTemplates, recordAttachmentVisibility } from "../attachments";
+import type { PopoverData } from "./usePopoverData";
+
+interface VariantMenuProps {
+  data: PopoverData;
+  shared: SharedImageOption;
+  // The variant's image failed to load
+  isBroken: boolean;
+  focusName: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Inline menu for a variant with rename, default, visibility, replace, switch mode, facing,
+ * attachments, random weight, tags, scene state and remove actions
+ */
+export function VariantMenu({ data, shared, isBroken, focusName, onClose }: VariantMenuProps) {
+  const { option, itemIds } = shared;
+  const [name, setName] = useState(option.name);
+  const [sceneState, setSceneState] = useState(option.sceneState ?? "");
+  const [weight, setWeight] = useState(String(getImageOptionWeight(option)));
+  const [tags, setTags] = useState(option.tags?.join(", ") ?? "");
+
+  // Items currently showing this image keep it (removal is disabled for them)
+  const items = data.items.filter(item => itemIds.includes(item.id));
+  const removableItemIds = items.filter(item => !isImageOptionActive(item, option)).map(item => item.id);
+  const isDefault = items.some(item => getDefaultImageOptionId(item) === option.id);
+  const isSecret = option.gmOnly === true;
+  const isShown = items.some(item => isImageOptionActive(item, option));
+  // Players can't change scene libraries, so variants that only come from one are read-only for them
+  const isOwnVariant = items.some(item => getItemOwnImageOptions(item).some(own => isSameVariant(own, option)));
+  const canEditVariant = data.canEdit && (data.isGM || isOwnVariant);
+  const canEditState = canEditVariant && data.isGM;
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      await action();
+      onClose();
+    } catch (error) {
+      console.error(errorMessage, error);
+    }
+  };
+
+  const handleRename = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName || trimmedName === option.name) {
+      onClose();
+      return;
+    }
+    run(() => renameImageOption(itemIds, option, trimmedName), "Error renaming image option:");
+  };
+
+  const handleRemove = () => {
+    if (removableItemIds.length === 0) return;
+
+    run(async () => {
+      await removeImageOption(option, removableItemIds);
+      const keptCount = items.length - removableItemIds.length;
+      if (keptCount > 0) {
+        await OBR.notification.show(
+          `"${option.name}" was kept on ${keptCount} item${keptCount === 1 ? "" : "s"} currently showing it`,
+          "INFO"
+        );
+      }
+    }, "Error removing image option:");
+  };
+
+  const handleReplace = () => {
+    run(async () => {
+      const downloadResult = await OBR.assets.downloadImages(false, option.name, getAssetTypeForLayer(items[0]?.layer));
+      if (downloadResult && downloadResult.length > 0) {
+        await replaceImageOptionImage(itemIds, option, downloadResult[0]);
+      }
+    }, "Error replacing variant image:");
+  };
+
+  const handleRecordAttachments = (record: typeof recordAttachmentVisibility) => {
+    run(async () => {
+      if (await record(itemIds, option) === 0) {
+        await OBR.notification.show("Attachments can only be saved on an item's own variants, not ones from a library", "WARNING");
+      }
+    }, "Error saving variant attachments:");
+  };
+
+  const handleSetWeight = () => {
+    const value = Number(weight);
+    if (weight.trim() === "" || !Number.isFinite(value) || value < 0) {
+      setWeight(String(getImageOptionWeight(option)));
+      return;
+    }
+    // The default weight isn't stored
+    run(() => setImageOptionWeight(itemIds, option, value === 1 ? undefined : value), "Error setting variant weight:");
+  };
+
+  const handleSetTags = () => {
+    const list = [...new Set(tags.split(",").map(tag => tag.trim()).filter(Boolean))];
+    run(() => setImageOptionTags(itemIds, option, list.length > 0 ? list : undefined), "Error setting variant tags:");
+  };
+
+  const handleKeyDown = (submit: () => void) => (event: KeyboardEvent) => {
+    if (event.key === "Enter") {
+      submit();
+    } else if (event.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={["variant-menu", canEditVariant && "has-mode", canEditState && "has-state"].filter(Boolean).join(" ")}>
+      {canEditVariant ? (
+        <>
+          <input
+            className="variant-name-input"
+            type="text"
+            title="Rename variant"
+            value={name}
+            autoFocus={focusName}
+            onFocus={(event) => event.target.select()}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={handleKeyDown(handleRename)}
+          />
+          <button
+            className={`variant-menu-button${isDefault ? " active" : ""}`}
+            title={isDefault ? "Clear default" : "Set as default"}
+            onClick={() => run(() => setDefaultImageOption(itemIds, isDefault ? undefined : option), "Error setting default image option:")}
+          >
+            &#x2605;
+          </button>
+          {data.isGM && (
+            <button
+              className={`variant-menu-button${isSecret ? " active" : ""}`}
+              title={isSecret ? "Show to players" : "Hide from players"}
+              onClick={() => run(() => setImageOptionGmOnly(itemIds, option, !isSecret), "Error changing variant visibility:")}
+            >
+              &#x1F441;
+            </button>
+          )}
+          <button
+            className={`variant-menu-button${isBroken ? " warning" : ""}`}
+            title={isBroken ? "Image can't be loaded, replace it" : "Replace image"}
+            onClick={handleReplace}
+          >
+            &#x21BB;
+          </button>
+        </>
+      ) : (
+        <span className="variant-menu-label">{option.name}</span>
+      )}
+      {canEditVariant && (
+        <button
+          className="variant-menu-button"
+          title={removableItemIds.length === 0 ? "Can't remove the image currently shown" : "Remove variant"}
+          disabled={removableItemIds.length === 0}
+          onClick={handleRemove}
+        >
+          &#x1F5D1;
+        </button>
+      )}
+      <button className="variant-menu-button" title="Close" onClick={onClose}>&times;</button>
+      {canEditVariant && (
+        <select
+          className="library-select variant-mode-select"
+          title="How switching to this variant fits it onto the map"
+          value={option.switchMode ?? ""}
+          onChange={(event) => {
+            const switchMode = isSwitchMode(event.target.value) ? event.target.value : undefined;
+            run(() => setImageOptionSwitchMode(itemIds, option, switchMode), "Error setting switch mode:");
+          }}
+        >
+          <option value="">Use the item's switch mode</option>
+          {SWITCH_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+        </select>
+      )}
+      {canEditVariant && (
+        <select
+          className="library-select variant-mode-select"
+          title="Direction this art faces, used by auto-facing"
+          value={option.facing ?? ""}
+          onChange={(event) => {
+            const facing = isFacing(event.target.value) ? event.target.value : undefined;
+            run(() => setImageOptionFacing(itemIds, option, facing), "Error setting facing:");
+          }}
+        >
+          <option value="">No facing</option>
+          {FACINGS.map(({ facing, label }) => <option key={facing} value={facing}>Faces {label.toLowerCase()}</option>)}
+        </select>
+      )}
+      {canEditVariant && (
+        <div className="library-row variant-attachment-row">
+          <button
+            className="library-button"
+            title="Remember which attached items are visible now and restore that whenever this variant is shown"
+            onClick={() => handleRecordAttachments(recordAttachmentVisibility)}
+          >
+            Keep visibility
+          </button>
+          <button
+            className="library-button"
+            title={isShown
+              ? "Store the attached items with this variant, they are created when it is shown and removed when switching away"
+              : "Show this variant first, then store the items attached to it"}
+            disabled={!isShown}
+            onClick={() => handleRecordAttachments(recordAttachmentTemplates)}
+          >
+            Store attached
+          </button>
+          {option.attachments && (
+            <button
+              className="library-button"
+              title="Stop this variant from changing attached items"
+              onClick={() => handleRecordAttachments(clearVariantAttachments)}
+            >
+              &times;
+            </button>
+          )}
+        </div>
+      )}
+      {canEditVariant && (
+        <label className="library-row variant-weight-row" title="How likely this variant is when randomizing a crowd, 0 to never pick it. Press Enter to save">
+          <span className="switch-mode-label">Random weight</span>
+          <input
+            className="library-name"
+            type="number"
+            min={0}
+            step={1}
+            value={weight}
+            onChange={(event) => setWeight(event.target.value)}
+            onKeyDown={handleKeyDown(handleSetWeight)}
+          />
+        </label>
+      )}
+      {canEditVariant && (
+        <input
+          className="variant-name-input variant-tags-input"
+          type="text"
+          placeholder="Tags, e.g. happy, combat"
+          title="Comma-separated tags to search for this variant by, press Enter to save"
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          onKeyDown={handleKeyDown(handleSetTags)}
+        />
+      )}
+      {canEditState && (
+        <input
+          className="variant-name-input variant-state-input"
+          type="text"
+          placeholder="Scene state, e.g. Night"
+          title="Scene state this variant belongs to, press Enter to save"
+          value={sceneState}
+          onChange={(event) => setSceneState(event.target.value)}
+          onKeyDown={handleKeyDown(() =>
+            run(() => setImageOptionSceneState(itemIds, option, sceneState.trim() || undefined), "Error setting scene state:")
+          )}
+        />
+      )}
+    </div>
+  );
+}
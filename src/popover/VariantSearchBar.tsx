@@ -0,0 +1,50 @@
+interface VariantSearchBarProps {
+  search: string;
+  // Every tag used by the listed variants
+  tags: string[];
+  onSearchChange: (search: string) => void;
+}
+
+/**
+ * Filter the variants by name or tag
+ * Clicking a tag adds it to the search, or takes it out again
+ */
+export function VariantSearchBar({ search, tags, onSearchChange }: VariantSearchBarProps) {
+  const splitWords = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+  const words = splitWords(search);
+  const isTagActive = (tag: string) => splitWords(tag).every(word => words.includes(word));
+
+  const handleTagClick = (tag: string) => {
+    const tagWords = splitWords(tag);
+    onSearchChange(isTagActive(tag)
+      ? words.filter(word => !tagWords.includes(word)).join(" ")
+      : [...words, ...tagWords.filter(word => !words.includes(word))].join(" "));
+  };
+
+  return (
+    <div className="variant-search-bar">
+      <input
+        className="library-name variant-search-input"
+        type="search"
+        placeholder="Search variants"
+        title="Show variants whose name or tags contain every word"
+        value={search}
+        onChange={(event) => onSearchChange(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            onSearchChange("");
+          }
+        }}
+      />
+      {tags.map(tag => (
+        <button
+          key={tag}
+          className={["variant-tag", isTagActive(tag) && "active"].filter(Boolean).join(" ")}
+          onClick={() => handleTagClick(tag)}
+        >
+          {tag}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { ImageOption } from "../helpers";
+import { useThumbnailSource } from "./useThumbnailSource";
+
+/**
+ * The image of a variant, showing a still frame for videos
+ */
+export function VariantThumbnail({ option, className }: { option: ImageOption; className: string }) {
+  const source = useThumbnailSource(option);
+  switch (source.type) {
+    case "IMAGE":
+      return <img className={className} src={source.url} alt={option.name} />;
+    case "LOADING":
+      return <div className={`${className} thumbnail-loading`} />;
+    case "VIDEO":
+      return <video className={className} src={source.url} muted preload="metadata" />;
+  }
+}
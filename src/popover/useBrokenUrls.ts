@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { findBrokenImageUrls } from "../assets";
+import type { ImageOption } from "../helpers";
+
+/**
+ * Check the images of the given variants in the background
+ * Returns the URLs that failed to load, filled in as the checks finish
+ */
+export function useBrokenUrls(imageOptions: ImageOption[]): Set<string> {
+  const [brokenUrls, setBrokenUrls] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let isCurrent = true;
+    findBrokenImageUrls(imageOptions)
+      .then((urls) => {
+        // Checks are cached, so most reloads find the same URLs and shouldn't re-render
+        if (isCurrent) {
+          setBrokenUrls(previous =>
+            previous.size === urls.size && [...urls].every(url => previous.has(url)) ? previous : urls
+          );
+        }
+      })
+      .catch(error => console.error("Error checking variant images:", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [imageOptions]);
+
+  return brokenUrls;
+}
@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import OBR, { isImage, type Image } from "@owlbear-rodeo/sdk";
+import {
+  canAddImageOptionsToItems,
+  getSharedImageOptions,
+  isImageOptionActive,
+  isPlayerGM,
+  type SharedImageOption,
+} from "../helpers";
+import { findLibraryProblems, getItemLibraryId, getLibraries, onLibrariesChange, type VariantLibrary } from "../library";
+import { getItemRules, type VariantRule } from "../rules";
+import { getItemAnimation, type VariantAnimation } from "../animation";
+import { getItemMetadata, repairItemsMetadata } from "../metadata";
+import type { SwitchMode } from "../switchModes";
+import { isAutoFacingEnabled } from "../facing";
+import { countLinkGroupMembers, getItemLinkGroup, type LinkGroup } from "../linkGroups";
+
+/** How long to wait for a burst of scene changes to settle before reloading */
+const RELOAD_DELAY = 100;
+
+/**
+ * Everything the popover shows for the current selection
+ */
+export interface PopoverData {
+  selection: string[];
+  // The selected image items
+  items: Image[];
+  // Variants across the selection, without the ones hidden from this player
+  sharedOptions: SharedImageOption[];
+  // A selected item showing a variant hidden from this player
+  secretItem?: Image;
+  isGM: boolean;
+  // Whether the player can add and edit variants
+  canEdit: boolean;
+  // Scene libraries, only loaded for GMs
+  libraries: VariantLibrary[];
+  linkedLibrary?: VariantLibrary;
+  // Rules of the first selected item, only loaded for GMs
+  rules?: VariantRule[];
+  // Animation of the first selected item, only loaded for editors
+  animation?: VariantAnimation;
+  // Switch mode of the first selected item
+  switchMode?: SwitchMode;
+  // Whether the first selected item turns to face the way it moves
+  autoFacing: boolean;
+  // Group the first selected item is linked into, and how many items are in it
+  linkGroup?: LinkGroup;
+  linkGroupSize: number;
+}
+
+/**
+ * Read the selection and everything the popover needs to show it
+ */
+async function loadPopoverData(): Promise<PopoverData> {
+  const selection = await OBR.player.getSelection() ?? [];
+  const isGM = await isPlayerGM();
+  const allOptions = await getSharedImageOptions();
+  const items = (await OBR.scene.items.getItems<Image>(selection)).filter(isImage);
+  const canEdit = items.length > 0 && await canAddImageOptionsToItems(items);
+
+  // Players never see secret variants, only that the current image is one
+  const sharedOptions = isGM ? allOptions : allOptions.filter(shared => !shared.option.gmOnly);
+  const secretItem = isGM ? undefined : items.find(item =>
+    allOptions.some(({ option }) => option.gmOnly && isImageOptionActive(item, option))
+  );
+
+  // Libraries are scene-wide and rules run on the GM's client, so only GMs manage them
+  const libraries = isGM && items.length > 0 ? await getLibraries() : [];
+  const libraryId = items.length > 0 ? getItemLibraryId(items[0]) : undefined;
+  const linkGroup = items.length > 0 ? getItemLinkGroup(items[0]) : undefined;
+
+  return {
+    selection,
+    items,
+    sharedOptions,
+    secretItem,
+    isGM,
+    canEdit,
+    libraries,
+    linkedLibrary: libraries.find(library => library.id === libraryId),
+    rules: isGM && items.length > 0 ? getItemRules(items[0]) : undefined,
+    animation: canEdit ? getItemAnimation(items[0]) : undefined,
+    switchMode: items.length > 0 ? getItemMetadata(items[0])?.switchMode : undefined,
+    autoFacing: items.length > 0 && isAutoFacingEnabled(items[0]),
+    linkGroup,
+    linkGroupSize: linkGroup ? await countLinkGroupMembers(linkGroup.id) : 0,
+  };
+}
+
+/**
+ * Repair the Changr metadata of the selected items and tell the user what was fixed
+ * Invalid library variants are reported to the GM as well, they are kept as they are
+ */
+async function repairSelectionMetadata(): Promise<void> {
+  try {
+    const selection = await OBR.player.getSelection();
+    const problems = await repairItemsMetadata(selection ?? []);
+    if (problems.length > 0) {
+      console.warn("Repaired Changr metadata:", problems);
+      await OBR.notification.show(
+        `Repaired variant data: ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ""}`,
+        "WARNING"
+      );
+    }
+    const libraryProblems = await isPlayerGM() ? await findLibraryProblems() : [];
+    if (libraryProblems.length > 0) {
+      console.warn("Invalid Changr library variants:", libraryProblems);
+      await OBR.notification.show(
+        `Invalid library data: ${libraryProblems[0]}${libraryProblems.length > 1 ? ` (+${libraryProblems.length - 1} more)` : ""}`,
+        "WARNING"
+      );
+    }
+  } catch (error) {
+    console.error("Error repairing variant metadata:", error);
+  }
+}
+
+/**
+ * Keep the popover data in step with the scene
+ * Only changes to the selected items, the player's selection and role, or the
+ * scene's libraries trigger a reload, and bursts of changes are debounced
+ */
+export function usePopoverData(): { data: PopoverData | undefined; reload: () => void } {
+  const [data, setData] = useState<PopoverData>();
+  const scheduleRef = useRef<() => void>(() => { });
+
+  useEffect(() => {
+    let timer: number | undefined;
+    let loadId = 0;
+    let selection: string[] = [];
+    let selectedItemsKey = "";
+    let playerKey = "";
+
+    const load = async () => {
+      const id = ++loadId;
+      const next = await loadPopoverData();
+      // A newer load started while this one was running
+      if (id === loadId) {
+        selection = next.selection;
+        setData(next);
+      }
+    };
+
+    const schedule = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        load().catch(error => console.error("Error refreshing UI:", error));
+      }, RELOAD_DELAY);
+    };
+    scheduleRef.current = schedule;
+
+    repairSelectionMetadata()
+      .then(load)
+      .catch(error => console.error("Error loading image options:", error));
+
+    const unsubscribers = [
+      OBR.player.onChange((player) => {
+        const key = JSON.stringify([player.selection ?? [], player.role]);
+        if (key !== playerKey) {
+          playerKey = key;
+          schedule();
+        }
+      }),
+      OBR.scene.items.onChange((items) => {
+        const key = JSON.stringify(items.filter(item => selection.includes(item.id)));
+        if (key !== selectedItemsKey) {
+          selectedItemsKey = key;
+          schedule();
+        }
+      }),
+      onLibrariesChange(schedule),
+    ];
+
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
+  const reload = useCallback(() => scheduleRef.current(), []);
+  return { data, reload };
+}
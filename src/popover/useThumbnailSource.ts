@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { getVideoPoster } from "../assets";
+import { isVideoImageOption, type ImageOption } from "../helpers";
+
+/**
+ * What to show for a variant's image
+ * Videos show a cached still frame, and only fall back to a live video
+ * element when no frame could be captured
+ */
+export type ThumbnailSource =
+  | { type: "IMAGE"; url: string }
+  | { type: "LOADING" }
+  | { type: "VIDEO"; url: string };
+
+/**
+ * Get the source of a variant's thumbnail, capturing a poster frame for videos
+ */
+export function useThumbnailSource(option: ImageOption): ThumbnailSource {
+  const isVideo = isVideoImageOption(option);
+  const [poster, setPoster] = useState<{ url: string; frame: string | undefined }>();
+
+  useEffect(() => {
+    if (!isVideo) return;
+    let isCurrent = true;
+    getVideoPoster(option.url)
+      .then((frame) => {
+        if (isCurrent) {
+          setPoster({ url: option.url, frame });
+        }
+      })
+      .catch(error => console.error("Error capturing video poster:", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [isVideo, option.url]);
+
+  if (!isVideo) {
+    return { type: "IMAGE", url: option.url };
+  }
+  // A poster of a previous URL doesn't count once the image was replaced
+  if (poster?.url !== option.url) {
+    return { type: "LOADING" };
+  }
+  return poster.frame ? { type: "IMAGE", url: poster.frame } : { type: "VIDEO", url: option.url };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import type { ImageOption } from "../helpers";
+import {
+  closeVariantPreview,
+  onVariantPreviewRequest,
+  openVariantPreview,
+  showVariantPreview,
+} from "../previewPopover";
+
+/**
+ * Show a variant in the preview popover, opening it the first time one is shown
+ * The embed is too small for a useful preview, so it gets a popover of its own
+ */
+export function useVariantPreview(option: ImageOption | undefined) {
+  const optionRef = useRef(option);
+  const isOpenRef = useRef(false);
+
+  useEffect(() => {
+    optionRef.current = option;
+    if (isOpenRef.current) {
+      showVariantPreview(option).catch(error => console.error("Error showing variant preview:", error));
+    } else if (option) {
+      // The page asks for the variant once it has loaded
+      isOpenRef.current = true;
+      openVariantPreview().catch(error => console.error("Error opening variant preview:", error));
+    }
+  }, [option]);
+
+  useEffect(() => onVariantPreviewRequest(() => {
+    showVariantPreview(optionRef.current).catch(error => console.error("Error showing variant preview:", error));
+  }), []);
+
+  // The popover outlives the embed, so it is closed along with the context menu
+  useEffect(() => {
+    const close = () => {
+      if (!isOpenRef.current) return;
+      isOpenRef.current = false;
+      closeVariantPreview().catch(error => console.error("Error closing variant preview:", error));
+    };
+    window.addEventListener("pagehide", close);
+    return () => {
+      window.removeEventListener("pagehide", close);
+      close();
+    };
+  }, []);
+}
@@ -0,0 +1,14 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { createRoot } from "react-dom/client";
+import "./styles.css";
+import { PreviewPage } from "./popover/PreviewPage";
+
+/**
+ * This file mounts the large preview of a hovered variant,
+ * opened as its own popover since the menu embed is too small to hold it.
+ * The hovered variant is sent over a local broadcast, so the page loads once.
+ */
+
+OBR.onReady(() => {
+  createRoot(document.querySelector<HTMLDivElement>("#app")!).render(<PreviewPage />);
+});
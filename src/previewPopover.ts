@@ -0,0 +1,72 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import { isImageOption, type ImageOption } from "./helpers";
+
+const PREVIEW_POPOVER_ID = getPluginId("preview");
+
+/** Local broadcast channel the popover sends the hovered variant on */
+const PREVIEW_OPTION_CHANNEL = getPluginId("preview/option");
+
+/** Local broadcast channel the preview page asks for the hovered variant on once it has loaded */
+const PREVIEW_READY_CHANNEL = getPluginId("preview/ready");
+
+/** Size of the preview popover, room for a 224px image with its name and size below */
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 288;
+
+/** Gap between the top of the viewport and the preview */
+const PREVIEW_TOP = 16;
+
+/**
+ * Open the preview page at the top of the viewport
+ * It stays open while variants are hovered and only draws itself while one is shown,
+ * so it is opened once instead of reloading for every variant
+ */
+export async function openVariantPreview(): Promise<void> {
+    const viewportWidth = await OBR.viewport.getWidth();
+    await OBR.popover.open({
+        id: PREVIEW_POPOVER_ID,
+        url: "/preview.html",
+        width: PREVIEW_WIDTH,
+        height: PREVIEW_HEIGHT,
+        anchorReference: "POSITION",
+        anchorPosition: { left: viewportWidth / 2, top: PREVIEW_TOP },
+        anchorOrigin: { horizontal: "CENTER", vertical: "TOP" },
+        transformOrigin: { horizontal: "CENTER", vertical: "TOP" },
+        hidePaper: true,
+    });
+}
+
+export async function closeVariantPreview(): Promise<void> {
+    await OBR.popover.close(PREVIEW_POPOVER_ID);
+}
+
+/**
+ * Show a variant in the open preview page, or hide the preview when undefined
+ */
+export async function showVariantPreview(option: ImageOption | undefined): Promise<void> {
+    await OBR.broadcast.sendMessage(PREVIEW_OPTION_CHANNEL, option ?? null, { destination: "LOCAL" });
+}
+
+/**
+ * Subscribe to the variants sent to the preview page
+ */
+export function onVariantPreviewChange(callback: (option: ImageOption | undefined) => void): () => void {
+    return OBR.broadcast.onMessage(PREVIEW_OPTION_CHANNEL, (event) => {
+        callback(isImageOption(event.data) ? event.data : undefined);
+    });
+}
+
+/**
+ * Ask the popover for the variant to show, called by the preview page once it has loaded
+ */
+export async function requestVariantPreview(): Promise<void> {
+    await OBR.broadcast.sendMessage(PREVIEW_READY_CHANNEL, null, { destination: "LOCAL" });
+}
+
+/**
+ * Subscribe to the preview page asking for the variant to show
+ */
+export function onVariantPreviewRequest(callback: () => void): () => void {
+    return OBR.broadcast.onMessage(PREVIEW_READY_CHANNEL, callback);
+}
@@ -0,0 +1,245 @@
+import OBR, { type Image } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "./getPluginId";
+import {
+    addImageOptionToItems,
+    isImageOption,
+    isPlainObject,
+    isPrimaryGM,
+    type ImageOption,
+} from "./helpers";
+
+/**
+ * The image and grid of a proposed variant, the only parts that are stored
+ * The proposal's id becomes the variant's id once it is approved
+ */
+type ProposedImage = Pick<ImageOption, "url" | "width" | "height" | "name" | "dpi" | "offset" | "mime">;
+
+/**
+ * A variant a player without create permission would like added to a token
+ */
+export interface VariantProposal {
+    id: string;
+    itemId: string;
+    itemName: string;
+    imageOption: ProposedImage;
+    playerId: string;
+    playerName: string;
+}
+
+/**
+ * The GM's answer to a proposal, sent back to every client and shown to the proposing player
+ */
+interface ProposalResult {
+    playerId: string;
+    itemName: string;
+    variantName: string;
+    approved: boolean;
+    // Why the proposal was turned down without the GM seeing it
+    reason?: string;
+}
+
+/** Room metadata key of the pending proposals, so they outlive a GM reload */
+const PROPOSALS_KEY = getPluginId("proposals");
+
+/** Broadcast channel players send proposals on */
+const PROPOSAL_CHANNEL = getPluginId("proposals/new");
+
+/** Broadcast channel the GM sends approvals and rejections on */
+const PROPOSAL_RESULT_CHANNEL = getPluginId("proposals/result");
+
+/** Room metadata is small, so only this many proposals are kept waiting */
+const MAX_PENDING_PROPOSALS = 20;
+
+/**
+ * Type guard to check if an object is a valid VariantProposal
+ */
+function isVariantProposal(obj: unknown): obj is VariantProposal {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.id === 'string' &&
+        typeof obj.itemId === 'string' &&
+        typeof obj.itemName === 'string' &&
+        isPlainObject(obj.imageOption) &&
+        isImageOption({ ...obj.imageOption, id: obj.id }) &&
+        typeof obj.playerId === 'string' &&
+        typeof obj.playerName === 'string'
+    );
+}
+
+function isProposalResult(obj: unknown): obj is ProposalResult {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.playerId === 'string' &&
+        typeof obj.itemName === 'string' &&
+        typeof obj.variantName === 'string' &&
+        typeof obj.approved === 'boolean' &&
+        (obj.reason === undefined || typeof obj.reason === 'string')
+    );
+}
+
+/**
+ * Keep only the stored parts of a proposal, dropping anything else a client sent along
+ */
+function compactProposal(proposal: VariantProposal): VariantProposal {
+    const { url, width, height, name, dpi, offset, mime } = proposal.imageOption;
+    return {
+        id: proposal.id,
+        itemId: proposal.itemId,
+        itemName: proposal.itemName,
+        imageOption: { url, width, height, name, dpi, offset, mime },
+        playerId: proposal.playerId,
+        playerName: proposal.playerName,
+    };
+}
+
+/**
+ * Get the proposals waiting for the GM, oldest first
+ */
+export async function getPendingProposals(): Promise<VariantProposal[]> {
+    const metadata = await OBR.room.getMetadata();
+    const proposals = metadata[PROPOSALS_KEY];
+    return Array.isArray(proposals) ? proposals.filter(isVariantProposal) : [];
+}
+
+async function setPendingProposals(proposals: VariantProposal[]): Promise<void> {
+    await OBR.room.setMetadata({ [PROPOSALS_KEY]: proposals });
+}
+
+/**
+ * Subscribe to changes of the pending proposals
+ * Other room metadata changes are ignored
+ */
+export function onPendingProposalsChange(callback: () => void): () => void {
+    let lastProposals: string | undefined;
+    return OBR.room.onMetadataChange((metadata) => {
+        const proposals = JSON.stringify(metadata[PROPOSALS_KEY] ?? null);
+        if (proposals !== lastProposals) {
+            callback();
+        }
+        lastProposals = proposals;
+    });
+}
+
+/**
+ * Send a variant to the GM to approve for each of the given items
+ * Returns false without sending when no GM is connected to receive it
+ */
+export async function proposeImageOption(items: Image[], imageOption: ImageOption): Promise<boolean> {
+    const players = await OBR.party.getPlayers();
+    if (!players.some(player => player.role === "GM")) {
+        await OBR.notification.show("No GM is connected to approve the image", "WARNING");
+        return false;
+    }
+
+    const playerName = await OBR.player.getName();
+    for (const item of items) {
+        const proposal = compactProposal({
+            id: crypto.randomUUID(),
+            itemId: item.id,
+            itemName: item.name,
+            imageOption,
+            playerId: OBR.player.id,
+            playerName,
+        });
+        await OBR.broadcast.sendMessage(PROPOSAL_CHANNEL, proposal);
+    }
+    await OBR.notification.show(`Sent "${imageOption.name}" to the GM for approval`, "INFO");
+    return true;
+}
+
+/**
+ * Remove a proposal from the pending list and tell the player the outcome
+ */
+async function resolveProposal(proposal: VariantProposal, approved: boolean): Promise<void> {
+    const proposals = await getPendingProposals();
+    await setPendingProposals(proposals.filter(pending => pending.id !== proposal.id));
+
+    const result: ProposalResult = {
+        playerId: proposal.playerId,
+        itemName: proposal.itemName,
+        variantName: proposal.imageOption.name,
+        approved,
+    };
+    await OBR.broadcast.sendMessage(PROPOSAL_RESULT_CHANNEL, result);
+}
+
+/**
+ * Add a proposed variant to its token and let the player know
+ * The proposal stays pending when its token isn't in the open scene
+ */
+export async function approveProposal(proposal: VariantProposal): Promise<boolean> {
+    const [item] = await OBR.scene.items.getItems([proposal.itemId]);
+    if (!item) {
+        await OBR.notification.show(`"${proposal.itemName}" isn't in this scene, open its scene to approve`, "WARNING");
+        return false;
+    }
+
+    await addImageOptionToItems([proposal.itemId], { ...proposal.imageOption, id: proposal.id });
+    await resolveProposal(proposal, true);
+    return true;
+}
+
+/**
+ * Drop a proposed variant and let the player know
+ */
+export async function rejectProposal(proposal: VariantProposal): Promise<void> {
+    await resolveProposal(proposal, false);
+}
+
+/**
+ * Turn a proposal down before the GM sees it, telling the player why
+ */
+async function refuseProposal(proposal: VariantProposal, reason: string): Promise<void> {
+    const result: ProposalResult = {
+        playerId: proposal.playerId,
+        itemName: proposal.itemName,
+        variantName: proposal.imageOption.name,
+        approved: false,
+        reason,
+    };
+    await OBR.broadcast.sendMessage(PROPOSAL_RESULT_CHANNEL, result);
+}
+
+/**
+ * Listen for proposals and their results
+ * The primary GM stores incoming proposals, and each player is told
+ * when one of their own proposals is approved or rejected
+ */
+export function startProposalListener(): void {
+    OBR.broadcast.onMessage(PROPOSAL_CHANNEL, async (event) => {
+        try {
+            if (!isVariantProposal(event.data) || !await isPrimaryGM()) {
+                return;
+            }
+            const proposal = compactProposal(event.data);
+            if (!await OBR.scene.isReady()) {
+                await refuseProposal(proposal, "the GM has no scene open");
+                return;
+            }
+            const proposals = await getPendingProposals();
+            if (proposals.length >= MAX_PENDING_PROPOSALS) {
+                await refuseProposal(proposal, "too many images are waiting for approval");
+                return;
+            }
+            await setPendingProposals([...proposals, proposal]);
+            await OBR.notification.show(`${proposal.playerName} suggested a new image for "${proposal.itemName}", review it in the scene panel`, "INFO");
+        } catch (error) {
+            console.error("Error storing variant proposal:", error);
+        }
+    });
+
+    OBR.broadcast.onMessage(PROPOSAL_RESULT_CHANNEL, async (event) => {
+        if (!isProposalResult(event.data) || event.data.playerId !== OBR.player.id) {
+            return;
+        }
+        const { itemName, variantName, approved, reason } = event.data;
+        await OBR.notification.show(
+            approved
+                ? `The GM added "${variantName}" to "${itemName}"`
+                : reason
+                    ? `"${variantName}" wasn't sent, ${reason}`
+                    : `The GM declined "${variantName}" for "${itemName}"`,
+            approved ? "SUCCESS" : "WARNING"
+        );
+    });
+}
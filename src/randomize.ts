@@ -0,0 +1,100 @@
+import OBR, { isImage, type Image } from "@owlbear-rodeo/sdk";
+import {
+    filterVisibleImageOptions,
+    getItemImageOptions,
+    isImageOptionActive,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getPluginId } from "./getPluginId";
+import { getCurrentActor } from "./audit";
+
+/** Tokens closer than this, in grid cells, count as neighbors */
+const NEIGHBOR_DISTANCE = 1.5;
+
+/** Local storage key of the player's "no matching neighbors" preference */
+const AVOID_NEIGHBORS_KEY = getPluginId("randomize/avoidNeighbors");
+
+/**
+ * Get the weight of a variant when picking at random, 1 unless set
+ */
+export function getImageOptionWeight(option: ImageOption): number {
+    return option.weight ?? 1;
+}
+
+/**
+ * Check if randomizing should keep neighboring tokens from sharing a variant
+ * Stored per player so the popover and the context menu agree
+ */
+export function getAvoidNeighbors(): boolean {
+    return localStorage.getItem(AVOID_NEIGHBORS_KEY) === "true";
+}
+
+export function setAvoidNeighbors(avoidNeighbors: boolean): void {
+    localStorage.setItem(AVOID_NEIGHBORS_KEY, String(avoidNeighbors));
+}
+
+/**
+ * Pick a variant at random, weighted by each variant's weight
+ */
+function pickWeighted(imageOptions: ImageOption[]): ImageOption | undefined {
+    const total = imageOptions.reduce((sum, option) => sum + getImageOptionWeight(option), 0);
+    if (total <= 0) {
+        return undefined;
+    }
+
+    let roll = Math.random() * total;
+    for (const option of imageOptions) {
+        roll -= getImageOptionWeight(option);
+        if (roll < 0) {
+            return option;
+        }
+    }
+    return imageOptions[imageOptions.length - 1];
+}
+
+/**
+ * Give each of the given items a random variant from its own list, in one update
+ * With avoidNeighbors set, tokens next to each other get different images
+ * where their lists allow it
+ * Returns the number of items that were switched
+ */
+export async function randomizeItems(itemIds: string[], avoidNeighbors = getAvoidNeighbors()): Promise<number> {
+    const items = (await OBR.scene.items.getItems<Image>(itemIds)).filter(isImage);
+    const neighborDistance = NEIGHBOR_DISTANCE * await OBR.scene.grid.getDpi();
+
+    // Picks are made left to right, top to bottom so each token only checks the ones before it
+    items.sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+
+    const picks = new Map<string, ImageOption>();
+    const updates = new Map<string, ImageOption>();
+    for (const item of items) {
+        const imageOptions = (await filterVisibleImageOptions(await getItemImageOptions(item) ?? []))
+            .filter(option => getImageOptionWeight(option) > 0);
+        if (imageOptions.length === 0) continue;
+
+        let candidates = imageOptions;
+        if (avoidNeighbors) {
+            const neighborUrls = new Set(items
+                .filter(other => picks.has(other.id) &&
+                    Math.hypot(other.position.x - item.position.x, other.position.y - item.position.y) <= neighborDistance)
+                .map(other => picks.get(other.id)!.url));
+            const distinct = imageOptions.filter(option => !neighborUrls.has(option.url));
+            // A crowd with fewer variants than neighbors has to repeat some
+            if (distinct.length > 0) {
+                candidates = distinct;
+            }
+        }
+
+        const option = pickWeighted(candidates);
+        if (!option) continue;
+
+        picks.set(item.id, option);
+        if (!isImageOptionActive(item, option)) {
+            updates.set(item.id, option);
+        }
+    }
+
+    await updateItemsWithImageOptions(updates, true, await getCurrentActor());
+    return updates.size;
+}
@@ -0,0 +1,241 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    isPlainObject,
+    isSameVariant,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+
+export type RuleOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+export const RULE_OPERATORS: RuleOperator[] = ["<", "<=", ">", ">=", "==", "!="];
+
+/**
+ * A rule that switches an item to a variant when a metadata value matches
+ * Rules are checked in order and the first match wins
+ */
+export interface VariantRule {
+    id: string;
+    // Metadata key path, e.g. "com.example.hp-tracker/metadata.hp"
+    path: string;
+    // Optional path to divide the value by, e.g. a max health value
+    relativeTo?: string;
+    operator: RuleOperator;
+    value: number | string | boolean;
+    optionId: string;
+}
+
+/**
+ * Type guard to check if an object is a valid VariantRule
+ */
+export function isVariantRule(obj: unknown): obj is VariantRule {
+    return (
+        isPlainObject(obj) &&
+        typeof obj.id === 'string' &&
+        typeof obj.path === 'string' &&
+        (obj.relativeTo === undefined || typeof obj.relativeTo === 'string') &&
+        RULE_OPERATORS.includes(obj.operator as RuleOperator) &&
+        (typeof obj.value === 'number' || typeof obj.value === 'string' || typeof obj.value === 'boolean') &&
+        typeof obj.optionId === 'string'
+    );
+}
+
+/**
+ * Get the rules stored on an item, dropping invalid entries
+ */
+export function getItemRules(item: Item): VariantRule[] {
+    return getItemMetadata(item)?.rules ?? [];
+}
+
+/**
+ * Get the id of the rule that last switched an item, if any
+ */
+function getActiveRuleId(item: Item): string | undefined {
+    return getItemMetadata(item)?.activeRuleId;
+}
+
+/**
+ * Read a value from item metadata by key path
+ * Metadata keys usually contain dots themselves, so the longest matching
+ * top level key is used and the rest of the path is split on dots
+ */
+export function resolveMetadataPath(metadata: Record<string, unknown>, path: string): unknown {
+    const key = Object.keys(metadata)
+        .filter(key => path === key || path.startsWith(`${key}.`))
+        .sort((a, b) => b.length - a.length)[0];
+    if (key === undefined) {
+        return undefined;
+    }
+
+    let value: unknown = metadata[key];
+    const rest = path.slice(key.length + 1);
+    for (const segment of rest ? rest.split(".") : []) {
+        if (!isPlainObject(value) && !Array.isArray(value)) {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+}
+
+/**
+ * Parse a value typed into the rule editor into a number, boolean or string
+ */
+export function parseRuleValue(input: string): number | string | boolean {
+    const trimmed = input.trim();
+    if (trimmed === "true" || trimmed === "false") {
+        return trimmed === "true";
+    }
+    const number = Number(trimmed);
+    return trimmed !== "" && !Number.isNaN(number) ? number : trimmed;
+}
+
+function compare(actual: unknown, operator: RuleOperator, expected: number | string | boolean): boolean {
+    switch (operator) {
+        case "==":
+            return actual === expected;
+        case "!=":
+            return actual !== expected;
+    }
+
+    if (typeof actual !== "number" || typeof expected !== "number") {
+        return false;
+    }
+
+    switch (operator) {
+        case "<":
+            return actual < expected;
+        case "<=":
+            return actual <= expected;
+        case ">":
+            return actual > expected;
+        case ">=":
+            return actual >= expected;
+    }
+}
+
+/**
+ * Check if a rule matches an item's current metadata
+ */
+export function isRuleMatched(item: Item, rule: VariantRule): boolean {
+    let actual = resolveMetadataPath(item.metadata, rule.path);
+    if (rule.relativeTo) {
+        const total = resolveMetadataPath(item.metadata, rule.relativeTo);
+        if (typeof actual !== "number" || typeof total !== "number" || total === 0) {
+            return false;
+        }
+        actual = actual / total;
+    }
+    return compare(actual, rule.operator, rule.value);
+}
+
+/**
+ * Describe a rule for display in the rule editor
+ */
+export function describeRule(rule: VariantRule): string {
+    const subject = rule.relativeTo ? `${rule.path} / ${rule.relativeTo}` : rule.path;
+    return `${subject} ${rule.operator} ${String(rule.value)}`;
+}
+
+/**
+ * Add a rule to the given items, targeting each item's own copy of the variant
+ */
+export async function addRule(itemIds: string[], rule: Omit<VariantRule, "id" | "optionId">, imageOption: ImageOption): Promise<void> {
+    const id = crypto.randomUUID();
+    const items = await OBR.scene.items.getItems(itemIds);
+    const targets = new Map<string, string>();
+    for (const item of items) {
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        const match = imageOptions.find(option => isSameVariant(option, imageOption));
+        if (match) {
+            targets.set(item.id, match.id);
+        }
+    }
+
+    await OBR.scene.items.updateItems(
+        (item) => targets.has(item.id),
+        (items) => {
+            for (const item of items) {
+                const optionId = targets.get(item.id);
+                if (!optionId) continue;
+
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    rules: [...metadata.rules ?? [], { ...rule, id, optionId }]
+                }));
+            }
+        }
+    );
+}
+
+/**
+ * Remove a rule from the given items
+ */
+export async function removeRule(itemIds: string[], ruleId: string): Promise<void> {
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id),
+        (items) => {
+            for (const item of items) {
+                if (getItemRules(item).length === 0) continue;
+
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    activeRuleId: metadata.activeRuleId === ruleId ? undefined : metadata.activeRuleId,
+                    rules: metadata.rules?.filter(rule => rule.id !== ruleId)
+                }));
+            }
+        }
+    );
+}
+
+/**
+ * Evaluate the rules of the given items and switch the ones whose matching rule changed
+ * Items are only switched when the matched rule changes, so manual selections
+ * stick until the watched metadata crosses into a different rule
+ */
+export async function applyVariantRules(items: Item[]): Promise<void> {
+    const updates = new Map<string, ImageOption>();
+    const activeRules = new Map<string, string | undefined>();
+
+    for (const item of items) {
+        if (!isImage(item)) continue;
+
+        const rules = getItemRules(item);
+        const activeRuleId = getActiveRuleId(item);
+        if (rules.length === 0 && activeRuleId === undefined) continue;
+
+        const matchedRule = rules.find(rule => isRuleMatched(item, rule));
+        if (matchedRule?.id === activeRuleId) continue;
+
+        activeRules.set(item.id, matchedRule?.id);
+        if (!matchedRule) continue;
+
+        const imageOptions = await getItemImageOptions(item) ?? [];
+        const option = imageOptions.find(option => option.id === matchedRule.optionId);
+        if (option && !isImageOptionActive(item, option)) {
+            updates.set(item.id, option);
+        }
+    }
+
+    if (activeRules.size === 0) {
+        return;
+    }
+
+    // Record the matched rules first so the follow up change events see them
+    await OBR.scene.items.updateItems(
+        (item) => activeRules.has(item.id),
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    activeRuleId: activeRules.get(item.id)
+                }));
+            }
+        }
+    );
+
+    await updateItemsWithImageOptions(updates);
+}
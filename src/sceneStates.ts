@@ -0,0 +1,80 @@
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    getItemImageOptions,
+    isImageOptionActive,
+    updateItemsWithImageOptions,
+    type ImageOption,
+} from "./helpers";
+import { getItemMetadata } from "./metadata";
+import { getCurrentActor } from "./audit";
+
+/**
+ * What happened when a scene state was applied
+ */
+export interface SceneStateResult {
+    // Items switched to their variant for the state
+    changed: number;
+    // Items that were already showing it
+    unchanged: number;
+    // Names of items that use scene states but have no variant for this one
+    unmatched: string[];
+}
+
+/** Scene state names are matched ignoring case and surrounding spaces */
+function normalizeSceneState(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+/**
+ * Get the image items that have been set up with Changr, with their resolved variants
+ */
+async function getSceneVariants(): Promise<{ item: Item; imageOptions: ImageOption[] }[]> {
+    const items = await OBR.scene.items.getItems((item) => isImage(item) && getItemMetadata(item) !== undefined);
+    const result: { item: Item; imageOptions: ImageOption[] }[] = [];
+    for (const item of items) {
+        result.push({ item, imageOptions: await getItemImageOptions(item) ?? [] });
+    }
+    return result;
+}
+
+/**
+ * List every scene state used by a variant in the scene, in first seen order
+ */
+export async function getSceneStateNames(): Promise<string[]> {
+    const names = new Map<string, string>();
+    for (const { imageOptions } of await getSceneVariants()) {
+        for (const option of imageOptions) {
+            if (option.sceneState && !names.has(normalizeSceneState(option.sceneState))) {
+                names.set(normalizeSceneState(option.sceneState), option.sceneState.trim());
+            }
+        }
+    }
+    return [...names.values()];
+}
+
+/**
+ * Switch every item that has a variant for the scene state, all in one update
+ */
+export async function applySceneState(name: string): Promise<SceneStateResult> {
+    const state = normalizeSceneState(name);
+    const updates = new Map<string, ImageOption>();
+    const result: SceneStateResult = { changed: 0, unchanged: 0, unmatched: [] };
+
+    for (const { item, imageOptions } of await getSceneVariants()) {
+        const stateOptions = imageOptions.filter(option => option.sceneState);
+        if (stateOptions.length === 0) continue;
+
+        const match = stateOptions.find(option => normalizeSceneState(option.sceneState!) === state);
+        if (!match) {
+            result.unmatched.push(item.name);
+        } else if (isImageOptionActive(item, match)) {
+            result.unchanged++;
+        } else {
+            updates.set(item.id, match);
+        }
+    }
+
+    await updateItemsWithImageOptions(updates, true, await getCurrentActor());
+    result.changed = updates.size;
+    return result;
+}
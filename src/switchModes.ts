@@ -0,0 +1,113 @@
+import OBR, { type Image, type Item, type Vector2 } from "@owlbear-rodeo/sdk";
+import type { ImageOption } from "./helpers";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+
+/**
+ * How a switch fits the new image onto the map
+ * VARIANT uses the variant's own grid size, KEEP_FOOTPRINT keeps the size and
+ * place the token covers, and KEEP_CENTER uses the variant's size around the old center
+ */
+export type SwitchMode = "VARIANT" | "KEEP_FOOTPRINT" | "KEEP_CENTER";
+
+export const SWITCH_MODES: { mode: SwitchMode; label: string }[] = [
+    { mode: "VARIANT", label: "Use variant's grid size" },
+    { mode: "KEEP_FOOTPRINT", label: "Keep current footprint" },
+    { mode: "KEEP_CENTER", label: "Keep visual center" },
+];
+
+/**
+ * Where an image sits on the map before a switch, in scene units
+ */
+export interface ImageFootprint {
+    center: Vector2;
+    width: number;
+    height: number;
+}
+
+/**
+ * Type guard to check if a value is a valid SwitchMode
+ */
+export function isSwitchMode(value: unknown): value is SwitchMode {
+    return SWITCH_MODES.some(({ mode }) => mode === value);
+}
+
+/**
+ * Get the mode a switch to a variant uses on an item
+ * The variant's own mode wins over the item's
+ */
+export function getSwitchMode(item: Item, option: ImageOption): SwitchMode {
+    return option.switchMode ?? getItemMetadata(item)?.switchMode ?? "VARIANT";
+}
+
+/**
+ * Set the switch mode of the given items, or clear it to use the variant's grid size
+ */
+export async function setItemsSwitchMode(itemIds: string[], switchMode: SwitchMode | undefined): Promise<void> {
+    await OBR.scene.items.updateItems(itemIds, (items) => {
+        for (const item of items) {
+            updateItemMetadata(item, (metadata) => ({ ...metadata, switchMode }));
+        }
+    });
+}
+
+/**
+ * Rotate a point around the origin, clockwise in scene coordinates
+ */
+export function rotateVector(point: Vector2, degrees: number): Vector2 {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+}
+
+/**
+ * Get the distance from an image's position to its center, in scene units
+ * The position is where the grid offset of the image is placed
+ */
+function getCenterOffset(item: Image, sceneDpi: number): Vector2 {
+    const pixelSize = sceneDpi / item.grid.dpi;
+    return rotateVector({
+        x: (item.image.width / 2 - item.grid.offset.x) * pixelSize * item.scale.x,
+        y: (item.image.height / 2 - item.grid.offset.y) * pixelSize * item.scale.y,
+    }, item.rotation);
+}
+
+/**
+ * Measure where an image sits on the map
+ */
+export function measureFootprint(item: Image, sceneDpi: number): ImageFootprint {
+    const pixelSize = sceneDpi / item.grid.dpi;
+    const centerOffset = getCenterOffset(item, sceneDpi);
+    return {
+        center: { x: item.position.x + centerOffset.x, y: item.position.y + centerOffset.y },
+        width: item.image.width * pixelSize * Math.abs(item.scale.x),
+        height: item.image.height * pixelSize * Math.abs(item.scale.y),
+    };
+}
+
+/**
+ * Fit an item draft that was just switched back onto its old footprint
+ * The longer side of the new image is scaled to the longer side of the old one,
+ * so differently shaped art isn't stretched
+ */
+export function fitToFootprint(item: Image, footprint: ImageFootprint, mode: SwitchMode, sceneDpi: number): void {
+    if (mode === "VARIANT") {
+        return;
+    }
+
+    if (mode === "KEEP_FOOTPRINT") {
+        const pixelSize = sceneDpi / item.grid.dpi;
+        const naturalSize = Math.max(item.image.width, item.image.height) * pixelSize;
+        const factor = naturalSize > 0 ? Math.max(footprint.width, footprint.height) / naturalSize : 1;
+        item.scale = {
+            x: Math.sign(item.scale.x || 1) * factor,
+            y: Math.sign(item.scale.y || 1) * factor,
+        };
+    }
+
+    const centerOffset = getCenterOffset(item, sceneDpi);
+    item.position = {
+        x: footprint.center.x - centerOffset.x,
+        y: footprint.center.y - centerOffset.y,
+    };
+}
@@ -0,0 +1,246 @@
+import OBR, { isImage } from "@owlbear-rodeo/sdk";
+import {
+    filterVisibleImageOptions,
+    getImageOptionErrors,
+    getItemImageOptions,
+    isPlainObject,
+    type ImageOption,
+} from "./helpers";
+import { getLibraries, setLibraries, type VariantLibrary } from "./library";
+import { getItemMetadata, updateItemMetadata } from "./metadata";
+
+/** Identifies Changr export files */
+const EXPORT_FORMAT = "changr-variants";
+
+/** Current export format version, bump when the file layout changes */
+export const EXPORT_VERSION = 1;
+
+/**
+ * A named set of variants in an export file, usually one per item
+ */
+export interface ExportedVariantSet {
+    name: string;
+    imageOptions: ImageOption[];
+}
+
+/**
+ * The contents of an export file
+ */
+export interface VariantExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    sets: ExportedVariantSet[];
+    libraries?: VariantLibrary[];
+}
+
+/**
+ * An entry in an import file that failed validation
+ */
+export interface InvalidImportEntry {
+    location: string;
+    errors: string[];
+}
+
+/**
+ * The result of reading an import file
+ */
+export interface ParsedImport {
+    imageOptions: ImageOption[];
+    libraries: VariantLibrary[];
+    invalidEntries: InvalidImportEntry[];
+}
+
+/** How to handle imported variants whose URL already exists on an item */
+export type ImportCollisionPolicy = "MERGE" | "REPLACE";
+
+/**
+ * Build an export of the given items' variants, optionally with the scene's libraries
+ */
+export async function buildExport(itemIds: string[], includeLibraries: boolean): Promise<VariantExport> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const sets: ExportedVariantSet[] = [];
+    for (const item of items) {
+        const imageOptions = await filterVisibleImageOptions(await getItemImageOptions(item) ?? []);
+        if (imageOptions.length > 0) {
+            sets.push({ name: item.name, imageOptions });
+        }
+    }
+
+    return {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        sets,
+        libraries: includeLibraries ? await getLibraries() : undefined,
+    };
+}
+
+/**
+ * Build an export of every item in the scene that has variants, plus the scene's libraries
+ */
+export async function buildSceneExport(): Promise<VariantExport> {
+    const items = await OBR.scene.items.getItems((item) => isImage(item) && getItemMetadata(item) !== undefined);
+    return await buildExport(items.map(item => item.id), true);
+}
+
+/**
+ * Offer an export to the user as a JSON file download
+ */
+export function downloadExport(data: VariantExport, fileName: string): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName.endsWith(".json") ? fileName : `${fileName}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Validate a list of image options, splitting them into valid options and reported failures
+ */
+function collectImageOptions(
+    entries: unknown,
+    location: string,
+    imageOptions: ImageOption[],
+    invalidEntries: InvalidImportEntry[]
+): void {
+    if (!Array.isArray(entries)) {
+        invalidEntries.push({ location, errors: ["imageOptions must be a list"] });
+        return;
+    }
+
+    entries.forEach((entry, index) => {
+        const errors = getImageOptionErrors(entry);
+        if (errors.length > 0) {
+            const name = isPlainObject(entry) && typeof entry.name === 'string' ? ` "${entry.name}"` : "";
+            invalidEntries.push({ location: `${location} entry ${index + 1}${name}`, errors });
+        } else {
+            imageOptions.push(entry as ImageOption);
+        }
+    });
+}
+
+/**
+ * Read and validate the text of an export file
+ * Throws if the file is not a Changr export or is from a newer version
+ */
+export function parseImport(text: string): ParsedImport {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON");
+    }
+
+    if (!isPlainObject(data) || data.format !== EXPORT_FORMAT) {
+        throw new Error("The file is not a Changr variant export");
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error(`Unsupported export version ${String(data.version)}, please update Changr`);
+    }
+
+    const imageOptions: ImageOption[] = [];
+    const invalidEntries: InvalidImportEntry[] = [];
+    const sets = Array.isArray(data.sets) ? data.sets : [];
+    sets.forEach((set, index) => {
+        const name = isPlainObject(set) && typeof set.name === 'string' ? set.name : `Set ${index + 1}`;
+        collectImageOptions(isPlainObject(set) ? set.imageOptions : undefined, name, imageOptions, invalidEntries);
+    });
+
+    const libraries: VariantLibrary[] = [];
+    const exportedLibraries = Array.isArray(data.libraries) ? data.libraries : [];
+    exportedLibraries.forEach((library, index) => {
+        if (!isPlainObject(library) || typeof library.id !== 'string' || typeof library.name !== 'string') {
+            invalidEntries.push({ location: `Library ${index + 1}`, errors: ["library must have an id and a name"] });
+            return;
+        }
+        const libraryOptions: ImageOption[] = [];
+        collectImageOptions(library.imageOptions, `Library "${library.name}"`, libraryOptions, invalidEntries);
+        libraries.push({ id: library.id, name: library.name, imageOptions: libraryOptions });
+    });
+
+    // The same variant can appear in several sets, keep the first copy
+    const uniqueOptions = imageOptions.filter((option, index) =>
+        imageOptions.findIndex(other => other.url === option.url) === index
+    );
+
+    return { imageOptions: uniqueOptions, libraries, invalidEntries };
+}
+
+/**
+ * Count the imported variants whose URL already exists on any of the given items
+ */
+export async function countImportCollisions(itemIds: string[], imageOptions: ImageOption[]): Promise<number> {
+    const items = await OBR.scene.items.getItems(itemIds);
+    const existingUrls = new Set<string>();
+    for (const item of items) {
+        for (const option of await getItemImageOptions(item) ?? []) {
+            existingUrls.add(option.url);
+        }
+    }
+    return imageOptions.filter(option => existingUrls.has(option.url)).length;
+}
+
+/**
+ * Merge imported variants into an existing list
+ * Colliding URLs keep the existing entry, or take the imported data under the existing id when replacing
+ */
+export function mergeImportedOptions(
+    existing: ImageOption[],
+    imported: ImageOption[],
+    policy: ImportCollisionPolicy
+): ImageOption[] {
+    const result = [...existing];
+    for (const option of imported) {
+        const index = result.findIndex(other => other.url === option.url);
+        if (index === -1) {
+            result.push({ ...option });
+        } else if (policy === "REPLACE") {
+            result[index] = { ...option, id: result[index].id };
+        }
+    }
+    return result;
+}
+
+/**
+ * Import variants into the given items' own option lists
+ */
+export async function importImageOptions(
+    itemIds: string[],
+    imageOptions: ImageOption[],
+    policy: ImportCollisionPolicy
+): Promise<void> {
+    await OBR.scene.items.updateItems(
+        (item) => itemIds.includes(item.id) && isImage(item),
+        (items) => {
+            for (const item of items) {
+                updateItemMetadata(item, (metadata) => ({
+                    ...metadata,
+                    imageOptions: mergeImportedOptions(metadata.imageOptions, imageOptions, policy)
+                }));
+            }
+        }
+    );
+}
+
+/**
+ * Import libraries into the scene
+ * Libraries with a matching id have their variants merged using the collision policy
+ */
+export async function importLibraries(libraries: VariantLibrary[], policy: ImportCollisionPolicy): Promise<void> {
+    if (libraries.length === 0) {
+        return;
+    }
+
+    const existing = await getLibraries();
+    const merged = existing.map(library => {
+        const imported = libraries.find(other => other.id === library.id);
+        return imported
+            ? { ...library, imageOptions: mergeImportedOptions(library.imageOptions, imported.imageOptions, policy) }
+            : library;
+    });
+    const added = libraries.filter(library => !existing.some(other => other.id === library.id));
+    await setLibraries([...merged, ...added]);
+}
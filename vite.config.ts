@@ -8,7 +8,9 @@ export default defineConfig({
     rollupOptions: {
       input: {
         main: 'index.html',
-        background: 'background.html'
+        background: 'background.html',
+        action: 'action.html',
+        preview: 'preview.html'
       }
     }
   },